@@ -9,25 +9,9 @@ async function runTest(tokenTypes: string[]) {
     console.log(`\n=== Testing with tokenTypes: ${tokenTypes.length ? JSON.stringify(tokenTypes) : '[] (Default)'} ===`);
     
     const client = new LspClient(command);
-    
-    // Set capabilities before starting
-    client.capabilities = {
-        textDocument: {
-            semanticTokens: {
-                dynamicRegistration: false,
-                tokenTypes: tokenTypes,
-                tokenModifiers: [],
-                formats: ['relative'],
-                requests: {
-                    range: false,
-                    full: { delta: false }
-                }
-            }
-        }
-    };
 
     try {
-        await client.start(rootUri);
+        await client.start(rootUri, { tokenTypes });
         console.log("LSP Started");
 
         // Read file content
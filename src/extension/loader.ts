@@ -0,0 +1,127 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import JSON5 from 'json5';
+import { unzipSync } from 'fflate';
+
+import { GrammarContribution } from '../textmate/grammar.js';
+
+export interface ThemeContribution {
+    id?: string;
+    label: string;
+    uiTheme?: string; // vs | vs-dark | hc-black | hc-light
+    path: string; // absolute
+}
+
+// contributes.semanticTokenScopes: TextMate scopes used for semantic tokens the theme doesn't style
+export interface SemanticTokenScopeContribution {
+    language?: string;
+    scopes: Record<string, string[]>; // semantic token selector -> TextMate scopes
+}
+
+export interface VsCodeExtension {
+    root: string; // Directory containing package.json (the extracted folder for a .vsix)
+    name: string;
+    grammars: GrammarContribution[];
+    themes: ThemeContribution[];
+    semanticTokenScopes: SemanticTokenScopeContribution[];
+}
+
+/**
+ * Extracts the `extension/` folder of a .vsix into a temp directory.
+ * The directory is keyed by the file hash, so repeated runs reuse the extraction.
+ */
+function extractVsix(vsixPath: string): string {
+    const content = fs.readFileSync(vsixPath);
+    const hash = crypto.createHash('sha1').update(content).digest('hex');
+    const targetDir = path.join(os.tmpdir(), 'syntax-highlighting-tester-vsix', hash);
+    const extensionDir = path.join(targetDir, 'extension');
+
+    if (fs.existsSync(path.join(extensionDir, 'package.json'))) {
+        return extensionDir;
+    }
+
+    const entries = unzipSync(new Uint8Array(content));
+    for (const [name, data] of Object.entries(entries)) {
+        if (!name.startsWith('extension/') || name.endsWith('/')) continue;
+
+        const target = path.join(targetDir, name);
+        // Guard against entries escaping the target directory ("zip slip")
+        if (!target.startsWith(targetDir + path.sep)) {
+            throw new Error(`Invalid entry '${name}' in ${vsixPath}`);
+        }
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, data);
+    }
+
+    if (!fs.existsSync(path.join(extensionDir, 'package.json'))) {
+        throw new Error(`No extension/package.json found in ${vsixPath}`);
+    }
+    return extensionDir;
+}
+
+/**
+ * Replaces `%key%` placeholders with their value from package.nls.json
+ */
+function localize(value: string, nls: Record<string, string>): string {
+    const match = value.match(/^%(.+)%$/);
+    return match && nls[match[1]] !== undefined ? nls[match[1]] : value;
+}
+
+/**
+ * Reads the grammar, theme and semantic token scope contributions of a VS Code
+ * extension, given either its folder or a packaged .vsix file.
+ */
+export function loadExtension(extensionPath: string): VsCodeExtension {
+    if (!fs.existsSync(extensionPath)) {
+        throw new Error(`Extension not found: ${extensionPath}`);
+    }
+
+    const root = extensionPath.endsWith('.vsix') ? extractVsix(extensionPath) : extensionPath;
+    const manifestPath = path.join(root, 'package.json');
+    if (!fs.existsSync(manifestPath)) {
+        throw new Error(`No package.json found in extension folder ${root}`);
+    }
+
+    const manifest = JSON5.parse(fs.readFileSync(manifestPath, 'utf8'));
+    const nlsPath = path.join(root, 'package.nls.json');
+    const nls: Record<string, string> = fs.existsSync(nlsPath) ? JSON5.parse(fs.readFileSync(nlsPath, 'utf8')) : {};
+    const contributes = manifest.contributes ?? {};
+
+    const grammars: GrammarContribution[] = (contributes.grammars ?? [])
+        .filter((g: any) => g.scopeName && g.path)
+        .map((g: any) => ({
+            scopeName: g.scopeName,
+            path: path.resolve(root, g.path),
+            language: g.language,
+            embeddedLanguages: g.embeddedLanguages,
+            tokenTypes: g.tokenTypes,
+            injectTo: g.injectTo
+        }));
+
+    const themes: ThemeContribution[] = (contributes.themes ?? [])
+        .filter((t: any) => t.path)
+        .map((t: any) => ({
+            id: t.id,
+            label: localize(t.label ?? t.id ?? path.basename(t.path), nls),
+            uiTheme: t.uiTheme,
+            path: path.resolve(root, t.path)
+        }));
+
+    return {
+        root,
+        name: manifest.displayName ? localize(manifest.displayName, nls) : manifest.name,
+        grammars,
+        themes,
+        semanticTokenScopes: contributes.semanticTokenScopes ?? []
+    };
+}
+
+/**
+ * Picks a contributed theme by label (or id). Without a label the first theme is used.
+ */
+export function findExtensionTheme(extension: VsCodeExtension, label?: string): ThemeContribution | undefined {
+    if (!label) return extension.themes[0];
+    return extension.themes.find(t => t.label === label || t.id === label);
+}
@@ -3,32 +3,323 @@ import path from 'node:path';
 import { program } from 'commander';
 import chalk from 'chalk';
 import JSON5 from 'json5';
+import { Range, SemanticTokens, SemanticTokensLegend } from 'vscode-languageserver-protocol';
 
-import { TextMateEngine } from './textmate/grammar.js';
-import { LspClient } from './lsp/client.js';
+import { TextMateEngine, GrammarContribution } from './textmate/grammar.js';
+import { LspClient, LspStartOptions, ReadinessOptions } from './lsp/client.js';
+import { checkSemanticTokenRequests } from './lsp/consistency.js';
+import { LspTransport, ProcessTransport, SocketTarget, SocketTransport } from './lsp/transport.js';
+import { LspRecorder, ReplayTransport } from './lsp/recording.js';
+import { loadSemanticTokensFile } from './lsp/tokens-file.js';
 import { ThemeResolver } from './theme/resolver.js';
+import { ThemeDiagnostic } from './theme/diagnostics.js';
 import { TokenMerger } from './overlay/merger.js';
 import { Renderer } from './renderer.js';
+import { ThemeSource } from './utils/vscode.js';
+import { loadExtension, findExtensionTheme, VsCodeExtension } from './extension/loader.js';
+import { parseAssertions, checkAssertions, getMergedScopes, ScopeAssertion } from './textmate/assertions.js';
+import { createProfileReport, formatTime } from './textmate/profile.js';
+import { checkEdits, checkRetokenizeLines, IncrementalEdit } from './textmate/incremental.js';
 
 import assert from 'node:assert';
 
 interface Config {
-    grammar: string;
-    scopeName: string;
+    grammar?: string; // Optional if the extension contributes the grammar for scopeName
+    scopeName?: string; // Optional if the extension contributes a grammar for a language
     extraGrammars?: Record<string, string>;
-    lsp: {
-        command: string[];
+    embeddedLanguages?: Record<string, string>; // Scope -> language id, like contributes.grammars[].embeddedLanguages
+    tokenTypes?: Record<string, string>; // Scope selector -> 'string' | 'comment' | 'regex' | 'other'
+    injections?: {
+        scopeName: string;
+        path: string;
+        injectTo: string[]; // Scope names of the grammars to inject into
+        injectionSelector?: string; // Defaults to the injectionSelector in the grammar file
+    }[];
+    extension?: {
+        path: string; // Extension folder or .vsix file
+        theme?: string; // Label (or id) of a contributed theme
+    };
+    lsp?: LspStartOptions & {
+        command?: string[]; // Optional if the transport connects to a running server
+        transport?: { type: 'stdio' } | SocketTarget; // Defaults to stdio
         rootUri?: string;
+        languageId?: string; // Sent in didOpen, defaults to the language of the grammar
+        responses?: Record<string, unknown>; // Server request method -> result to answer it with
+        requestTimeout?: number; // Milliseconds, 0 for none
+        retries?: number; // Retries of semantic token requests on ContentModified and ServerCancelled
+        readiness?: ReadinessOptions; // When to ask for the semantic tokens of an opened file
     };
-    theme: string;
+    theme?: string; // Optional if the extension contributes a theme
+    themeSource?: ThemeSource;
     files: string[];
+    timeLimit?: number; // Milliseconds per line before tokenizeLine stops early, 0 for none
+    edits?: Record<string, IncrementalEdit[]>; // Entry of `files` -> edits to replay with --incremental and --check-semantic
+    semanticTokens?: Record<string, string>; // Entry of `files` -> semantic tokens file used instead of the LSP
+    semanticRanges?: Record<string, Range[]>; // Entry of `files` -> ranges to request with --check-semantic, each line by default
+    assertions?: {
+        commentToken?: string; // Line comment of the language, defaults to "//"
+        semantic?: boolean; // Check the merged result (semantic tokens included) instead of the TextMate tokens
+    };
     outDir?: string;
     snapshotDir?: string;
 }
 
+/**
+ * Reads and parses a config file, exits if that fails.
+ */
+function readConfig(configPath: string): { config: Config; configBaseDir: string } {
+    const absConfigPath = path.resolve(configPath);
+    if (!fs.existsSync(absConfigPath)) {
+        console.error(chalk.red(`Config file not found: ${absConfigPath}`));
+        process.exit(1);
+    }
+
+    const configBaseDir = path.dirname(absConfigPath);
+    const configContent = fs.readFileSync(absConfigPath, 'utf8');
+    let config: Config;
+    
+    try {
+        config = JSON5.parse(configContent);
+    } catch (e) {
+        console.error(chalk.red("Failed to parse config file:"), e);
+        process.exit(1);
+    }
+
+    return { config, configBaseDir };
+}
+
+/**
+ * Resolves the extension, main grammar, extra and injected grammars of a config, exits if one is missing.
+ * `resolve` turns config paths into absolute paths.
+ */
+function setupGrammars(config: Config, resolve: (p: string) => string) {
+    // Extension folder or .vsix: grammars, themes and semantic token scopes come from its package.json
+    let extension: VsCodeExtension | null = null;
+    if (config.extension) {
+        try {
+            extension = loadExtension(resolve(config.extension.path));
+            console.log(chalk.blue(`Loaded extension ${extension.name} from: ${extension.root}`));
+        } catch (e) {
+            console.error(chalk.red("Failed to load extension:"), e instanceof Error ? e.message : e);
+            process.exit(1);
+        }
+    }
+
+    // Without an explicit scopeName, use the first grammar the extension contributes for a language
+    const scopeName = config.scopeName ?? extension?.grammars.find(g => g.language)?.scopeName;
+    if (!scopeName) {
+        console.error(chalk.red("No scopeName configured and the extension contributes no language grammar"));
+        process.exit(1);
+    }
+    const grammarContribution = extension?.grammars.find(g => g.scopeName === scopeName);
+
+    const grammarPath = config.grammar ? resolve(config.grammar) : grammarContribution?.path;
+    if (!grammarPath) {
+        console.error(chalk.red(`No grammar configured for ${scopeName}`));
+        process.exit(1);
+    }
+    
+    const extraGrammars: Record<string, string> = {};
+    if (config.extraGrammars) {
+        for (const [scope, pathRel] of Object.entries(config.extraGrammars)) {
+            extraGrammars[scope] = resolve(pathRel);
+        }
+    }
+
+    // Use the extension's language ID, or infer it from scope name (e.g. source.swift -> swift)
+    const langId = grammarContribution?.language || scopeName.split('.').pop() || 'plaintext';
+
+    // The main grammar's configuration from the config wins over the extension's, like user settings in VS Code
+    const mainContribution: GrammarContribution = {
+        ...grammarContribution,
+        scopeName,
+        path: grammarPath,
+        language: langId,
+        embeddedLanguages: { ...grammarContribution?.embeddedLanguages, ...config.embeddedLanguages },
+        tokenTypes: { ...grammarContribution?.tokenTypes, ...config.tokenTypes }
+    };
+
+    // Injection grammars are passed to the engine like extension contributions with injectTo
+    const grammarContributions: GrammarContribution[] = [
+        mainContribution,
+        ...(extension?.grammars ?? []).filter(g => g.scopeName !== scopeName),
+        ...(config.injections ?? []).map(injection => ({ ...injection, path: resolve(injection.path) }))
+    ];
+
+    return { extension, scopeName, grammarPath, extraGrammars, langId, grammarContributions };
+}
+
+/**
+ * Starts the language server of a config (or the replay of a recorded session), exits if that fails.
+ */
+async function startLsp(
+    lsp: NonNullable<Config['lsp']>,
+    options: { record?: string; replay?: string; checkSemantic?: boolean },
+    resolve: (p: string) => string,
+    configBaseDir: string
+): Promise<{ lspClient: LspClient; replay: ReplayTransport | null; recorder: LspRecorder | null }> {
+    const readinessStrategy = lsp.readiness?.strategy;
+    if (readinessStrategy && !['none', 'progress', 'delay', 'stable'].includes(readinessStrategy)) {
+        console.error(chalk.red(`Invalid lsp.readiness.strategy "${readinessStrategy}", expected "none", "progress", "delay" or "stable"`));
+        process.exit(1);
+    }
+    const transportType = lsp.transport?.type ?? 'stdio';
+    if (!['stdio', 'tcp', 'tcp-listen', 'pipe'].includes(transportType)) {
+        console.error(chalk.red(`Invalid lsp.transport.type "${transportType}", expected "stdio", "tcp", "tcp-listen" or "pipe"`));
+        process.exit(1);
+    }
+    const target = lsp.transport;
+    if (target?.type === 'tcp' && !Number.isInteger(target.port)) {
+        console.error(chalk.red("lsp.transport.port is required for the tcp transport"));
+        process.exit(1);
+    }
+    if (target?.type === 'pipe' && typeof target.path !== 'string') {
+        console.error(chalk.red("lsp.transport.path is required for the pipe transport"));
+        process.exit(1);
+    }
+    // Semantic token columns are read as UTF-16, like in VS Code
+    const encodings = lsp.positionEncodings;
+    if (encodings && (!Array.isArray(encodings) || encodings.some(encoding => encoding !== 'utf-16'))) {
+        console.error(chalk.red(`Invalid lsp.positionEncodings ${JSON.stringify(encodings)}, only ["utf-16"] is supported`));
+        process.exit(1);
+    }
+    if (transportType === 'stdio' && !lsp.command?.length && !options.replay) {
+        console.error(chalk.red("lsp.command is required unless lsp.transport connects to a running server"));
+        process.exit(1);
+    }
+    if (options.record && options.replay) {
+        console.error(chalk.red("--record and --replay can't be combined"));
+        process.exit(1);
+    }
+    if (options.checkSemantic && options.replay) {
+        // Recordings only hold semanticTokens/full results, range and delta requests would all fail
+        console.error(chalk.red("--check-semantic needs the live language server, it can't be combined with --replay"));
+        process.exit(1);
+    }
+    let replay: ReplayTransport | null = null;
+    let recorder: LspRecorder | null = null;
+    let transport: LspTransport;
+    if (options.replay) {
+        try {
+            transport = replay = ReplayTransport.load(path.resolve(options.replay));
+        } catch (e) {
+            console.error(chalk.red("Failed to load LSP recording:"), e instanceof Error ? e.message : e);
+            process.exit(1);
+        }
+    } else {
+        transport = target && target.type !== 'stdio'
+            ? new SocketTransport(target.type === 'pipe' ? { ...target, path: resolve(target.path) } : target, lsp.command)
+            : new ProcessTransport(lsp.command!);
+        if (options.record) {
+            transport = recorder = new LspRecorder(transport);
+        }
+    }
+
+    const lspClient = new LspClient(transport, {
+        requestTimeout: lsp.requestTimeout,
+        retries: lsp.retries,
+        // Recordings hold the last tokens of every file, the ones the server was ready with
+        readiness: replay ? undefined : lsp.readiness
+    });
+    for (const [method, result] of Object.entries(lsp.responses ?? {})) {
+        lspClient.onRequest(method, () => result);
+    }
+    const commandLine = lsp.command?.join(' ') ?? '';
+    if (replay) {
+        console.log(chalk.blue(`Replaying LSP session: ${options.replay}`));
+    } else if (transportType !== 'stdio') {
+        console.log(chalk.blue(`Connecting to LSP over ${transportType}${commandLine ? `: ${commandLine}` : ''}`));
+    } else {
+        console.log(chalk.blue(`Starting LSP: ${commandLine}`));
+    }
+    
+    try {
+        await lspClient.start(lsp.rootUri || `file://${configBaseDir}`, {
+            initializationOptions: lsp.initializationOptions,
+            settings: lsp.settings,
+            env: lsp.env,
+            cwd: lsp.cwd ? resolve(lsp.cwd) : undefined,
+            tokenTypes: lsp.tokenTypes,
+            tokenModifiers: lsp.tokenModifiers,
+            multilineTokenSupport: lsp.multilineTokenSupport,
+            overlappingTokenSupport: lsp.overlappingTokenSupport,
+            positionEncodings: lsp.positionEncodings
+        });
+    } catch (e) {
+        console.error(chalk.red("Failed to start LSP:"), e);
+        process.exit(1);
+    }
+    const positionEncoding = lspClient.serverCapabilities.positionEncoding;
+    if (positionEncoding && positionEncoding !== 'utf-16') {
+        console.warn(chalk.yellow(`The server chose the position encoding "${positionEncoding}", semantic token columns are read as UTF-16 like VS Code does`));
+    }
+
+    return { lspClient, replay, recorder };
+}
+
 program
     .description('CLI to test syntax highlighting (TextMate + Semantic Tokens)');
 
+const formatDiagnostic = (d: ThemeDiagnostic) => {
+    let location = d.themeFile ?? '';
+    if (d.section) location += `${location ? ' ' : ''}${d.section}${d.ruleIndex !== undefined ? `[${d.ruleIndex}]` : ''}`;
+    if (d.selector) location += ` "${d.selector}"`;
+    const text = `${d.severity}: ${location ? `${location}: ` : ''}${d.message}`;
+    return d.severity === 'error' ? chalk.red(text) : chalk.yellow(text);
+};
+
+program.command('lint-grammar')
+    .description('Check the grammars of a config for broken includes, invalid regexes and unused rules, exits with 1 on errors')
+    .argument('<config>', 'Path to configuration JSON file')
+    .action(async (configPath) => {
+        const { config, configBaseDir } = readConfig(configPath);
+        const resolve = (p: string) => path.resolve(configBaseDir, p);
+        const { scopeName, grammarPath, extraGrammars, grammarContributions } = setupGrammars(config, resolve);
+
+        const tmEngine = new TextMateEngine(grammarPath, scopeName, extraGrammars, grammarContributions);
+        const diagnostics = await tmEngine.lint();
+
+        for (const d of diagnostics) {
+            const text = `${d.severity}: ${path.relative(process.cwd(), d.file)}#${d.pointer}: ${d.message}`;
+            console.log(d.severity === 'error' ? chalk.red(text) : chalk.yellow(text));
+        }
+
+        const errors = diagnostics.filter(d => d.severity === 'error').length;
+        if (diagnostics.length === 0) {
+            console.log(chalk.green('No problems found'));
+        } else {
+            console.log(`\n${errors} error(s), ${diagnostics.length - errors} warning(s)`);
+        }
+        process.exit(errors > 0 ? 1 : 0);
+    });
+
+program.command('check-theme')
+    .description('Check a theme and its include chain for errors, exits with 1 if anything is reported')
+    .argument('<theme>', 'Path to the theme file or name of a default theme')
+    .option('--theme-source <source>', 'Where to load default themes from: auto, bundled or installed', 'auto')
+    .action((theme, options) => {
+        if (!['auto', 'bundled', 'installed'].includes(options.themeSource)) {
+            console.error(chalk.red(`Invalid theme source "${options.themeSource}", expected "auto", "bundled" or "installed"`));
+            process.exit(1);
+        }
+
+        const themePath = /\.(json|tmTheme)$/i.test(theme) || theme.includes('/') || theme.includes('\\')
+            ? path.resolve(theme)
+            : theme;
+        const diagnostics = ThemeResolver.check(themePath, options.themeSource);
+
+        for (const diagnostic of diagnostics) {
+            console.log(formatDiagnostic(diagnostic));
+        }
+
+        if (diagnostics.length > 0) {
+            const errors = diagnostics.filter(d => d.severity === 'error').length;
+            console.error(chalk.red(`\n${errors} error(s), ${diagnostics.length - errors} warning(s)`));
+            process.exit(1);
+        }
+        console.log(chalk.green('No problems found'));
+    });
+
 program.command('diff')
     .description('Generate a visual diff between two token JSON files')
     .argument('<snapshot>', 'Path to snapshot JSON')
@@ -62,41 +353,41 @@ program
     .option('--update', 'Update snapshots')
     .option('--snapshot-name <name>', 'Custom name for the snapshot')
     .option('--generated-name <name>', 'Custom name for the generated output in diff', 'Generated')
+    .option('--coverage', 'Report which theme rules styled, were shadowed for or never matched a token')
+    .option('--assert', 'Check the inline scope assertions (e.g. "// ^^^ keyword.control") in the files')
+    .option('--profile', 'Time the tokenization of every line and add a heat gutter to the HTML')
+    .option('--trace', 'Record the grammar rule behind every token and scope in the tooltip and tokens JSON')
+    .option('--incremental', 'Check that retokenizing from the stored line states (and the configured edits) matches a full tokenization')
+    .option('--check-semantic', 'Check that semantic tokens range requests and deltas after the configured edits match full results')
+    .option('--record <file>', 'Record the LSP session (initialize result and semantic tokens of every file) to a JSON file')
+    .option('--replay <file>', 'Serve semantic tokens from a recorded LSP session instead of starting the language server')
     .action(async (configPath, options) => {
-        const absConfigPath = path.resolve(configPath);
-        if (!fs.existsSync(absConfigPath)) {
-            console.error(chalk.red(`Config file not found: ${absConfigPath}`));
-            process.exit(1);
-        }
-
-        const configBaseDir = path.dirname(absConfigPath);
-        const configContent = fs.readFileSync(absConfigPath, 'utf8');
-        let config: Config;
-        
-        try {
-            config = JSON5.parse(configContent);
-        } catch (e) {
-            console.error(chalk.red("Failed to parse config file:"), e);
-            process.exit(1);
-        }
+        const { config, configBaseDir } = readConfig(configPath);
 
         // Resolve paths relative to config file
         const resolve = (p: string) => path.resolve(configBaseDir, p);
-        
-        const grammarPath = resolve(config.grammar);
-        
-        const extraGrammars: Record<string, string> = {};
-        if (config.extraGrammars) {
-            for (const [scope, pathRel] of Object.entries(config.extraGrammars)) {
-                extraGrammars[scope] = resolve(pathRel);
-            }
-        }
+        const { extension, scopeName, grammarPath, extraGrammars, langId, grammarContributions } = setupGrammars(config, resolve);
 
         let themePath = config.theme;
-        // If it looks like a path (ends in .json) or contains path separators, try to resolve it.
-        // Otherwise, pass it as-is to the resolver (which handles default theme names).
-        if (themePath.endsWith('.json') || themePath.includes('/') || themePath.includes('\\')) {
-             themePath = resolve(config.theme);
+        let themeName = config.theme;
+        if (themePath) {
+            // If it looks like a path (ends in .json/.tmTheme) or contains path separators, try to resolve it.
+            // Otherwise, pass it as-is to the resolver (which handles default theme names).
+            if (/\.(json|tmTheme)$/i.test(themePath) || themePath.includes('/') || themePath.includes('\\')) {
+                 themePath = resolve(themePath);
+            }
+        } else if (extension) {
+            const themeContribution = findExtensionTheme(extension, config.extension?.theme);
+            if (!themeContribution) {
+                console.error(chalk.red(`Extension does not contribute a theme${config.extension?.theme ? ` named "${config.extension.theme}"` : ''}`));
+                process.exit(1);
+            }
+            themePath = themeContribution.path;
+            themeName = themeContribution.label;
+        }
+        if (!themePath) {
+            console.error(chalk.red("No theme configured"));
+            process.exit(1);
         }
 
         const outDir = config.outDir ? resolve(config.outDir) : path.join(configBaseDir, 'out');
@@ -113,25 +404,40 @@ program
         console.log(chalk.blue("Initializing engines..."));
 
         // 1. TextMate
-        const tmEngine = new TextMateEngine(grammarPath, config.scopeName, extraGrammars);
+        const tmEngine = new TextMateEngine(grammarPath, scopeName, extraGrammars, grammarContributions, options.trace ? configBaseDir : undefined);
         await tmEngine.init();
 
         // 2. Theme
-        const themeResolver = new ThemeResolver(themePath);
+        if (config.themeSource && !['auto', 'bundled', 'installed'].includes(config.themeSource)) {
+            console.error(chalk.red(`Invalid themeSource "${config.themeSource}", expected "auto", "bundled" or "installed"`));
+            process.exit(1);
+        }
 
-        // 3. LSP
-        const lspClient = new LspClient(config.lsp.command);
-        console.log(chalk.blue(`Starting LSP: ${config.lsp.command.join(' ')}`));
-        
+        let themeResolver: ThemeResolver;
         try {
-            await lspClient.start(config.lsp.rootUri || `file://${configBaseDir}`);
+            themeResolver = new ThemeResolver(themePath, config.themeSource);
         } catch (e) {
-            console.error(chalk.red("Failed to start LSP:"), e);
+            console.error(chalk.red("Failed to load theme:"), e instanceof Error ? e.message : e);
             process.exit(1);
         }
 
+        const themeWarnings = themeResolver.getDiagnostics().length;
+        if (themeWarnings > 0) {
+            console.warn(chalk.yellow(`Theme has ${themeWarnings} warning(s), run check-theme for details`));
+        }
+
+        // 3. LSP, live, recorded or replayed from a recording. Without one, only TextMate tokens
+        // and semantic tokens from files are used
+        if (!config.lsp && (options.record || options.checkSemantic)) {
+            console.error(chalk.red("--record and --check-semantic need an lsp section in the config"));
+            process.exit(1);
+        }
+        const { lspClient, replay, recorder } = config.lsp || options.replay
+            ? await startLsp(config.lsp ?? {}, options, resolve, configBaseDir)
+            : { lspClient: null, replay: null, recorder: null };
+
         // 4. Merger
-        const merger = new TokenMerger(tmEngine, themeResolver);
+        const merger = new TokenMerger(tmEngine, themeResolver, extension?.semanticTokenScopes);
 
         let hasError = false;
 
@@ -144,27 +450,143 @@ program
             }
 
             console.log(chalk.green(`Processing ${fileRel}...`));
-            const content = fs.readFileSync(filePath, 'utf8');
+            let content = fs.readFileSync(filePath, 'utf8');
+
+            // Assertion lines are removed before anything else sees the file
+            let assertions: ScopeAssertion[] = [];
+            if (options.assert) {
+                try {
+                    ({ content, assertions } = parseAssertions(content, config.assertions?.commentToken ?? '//'));
+                } catch (e) {
+                    console.error(chalk.red(`  ❌ ${fileRel}: ${e instanceof Error ? e.message : e}`));
+                    hasError = true;
+                    continue;
+                }
+            }
             const fileUri = `file://${filePath}`;
 
             // A. TextMate
-            const tmTokens = tmEngine.tokenize(content);
-
-            // B. Semantic
-            // Infer language ID from scope name (e.g. source.swift -> swift)
-            const langId = config.scopeName.split('.').pop() || 'plaintext';
-            const semanticTokens = await lspClient.getSemanticTokens(fileUri, content, langId);
-            if (!semanticTokens) {
-                console.warn(chalk.yellow(`  No semantic tokens returned for ${fileRel}`));
+            const timeLimit = config.timeLimit ?? 0;
+            const { tokens: tmTokens, profile } = tmEngine.tokenizeWithProfile(content, timeLimit);
+            const profileReport = createProfileReport(fileRel, profile, timeLimit);
+
+            for (const line of profileReport.stoppedEarly) {
+                console.warn(chalk.yellow(`  Line ${line + 1} stopped early, tokenizing it took longer than ${timeLimit} ms`));
+            }
+            if (options.profile) {
+                const slowest = profileReport.slowestLines.slice(0, 5).map(l => `${l.line + 1} (${formatTime(l.time)})`);
+                console.log(chalk.blue(`  Tokenized in ${formatTime(profileReport.totalTime)}, max rule stack depth ${profileReport.maxRuleStackDepth}, slowest lines: ${slowest.join(', ')}`));
+            }
+
+            // A2. Incremental retokenization, like VS Code does while typing
+            if (options.incremental) {
+                try {
+                    const issues = [...checkRetokenizeLines(tmEngine, content), ...checkEdits(tmEngine, content, config.edits?.[fileRel] ?? [])];
+                    for (const issue of issues) {
+                        const after = issue.edit !== undefined ? ` after edit ${issue.edit + 1}`
+                            : issue.clearedLine !== undefined ? ` after clearing line ${issue.clearedLine + 1}` : '';
+                        console.error(chalk.red(`  ❌ ${fileRel}:${issue.line + 1}${after}: ${issue.message}`));
+                    }
+                    if (issues.length > 0) {
+                        hasError = true;
+                    } else {
+                        console.log(chalk.green(`  ✅ Incremental tokenization matches (${config.edits?.[fileRel]?.length ?? 0} edit(s))`));
+                    }
+                } catch (e) {
+                    console.error(chalk.red(`  ❌ ${fileRel}: ${e instanceof Error ? e.message : e}`));
+                    hasError = true;
+                }
+            }
+
+            // B. Semantic, from a file or the language server
+            let semanticTokens: SemanticTokens | null = null;
+            let legend: SemanticTokensLegend | null = null;
+            const tokensFile = config.semanticTokens?.[fileRel];
+            if (tokensFile) {
+                try {
+                    ({ tokens: semanticTokens, legend } = loadSemanticTokensFile(resolve(tokensFile)));
+                } catch (e) {
+                    console.error(chalk.red(`  ❌ ${fileRel}: ${e instanceof Error ? e.message : e}`));
+                    hasError = true;
+                    continue;
+                }
+            } else if (lspClient) {
+                const replayProblem = replay?.checkDocument(fileUri, content);
+                if (replayProblem) {
+                    console.error(chalk.red(`  ❌ ${fileRel}: ${replayProblem}`));
+                    hasError = true;
+                    continue;
+                }
+                semanticTokens = await lspClient.getSemanticTokens(fileUri, content, config.lsp?.languageId ?? langId);
+                legend = lspClient.legend;
+                if (lspClient.exitError) {
+                    console.error(chalk.red(`  ❌ ${fileRel}: ${lspClient.exitError.message}`));
+                    hasError = true;
+                    break;
+                }
+                if (!semanticTokens) {
+                    console.warn(chalk.yellow(`  No semantic tokens returned for ${fileRel}`));
+                }
+            }
+
+            // B2. Range and delta requests, checked against the full result
+            if (options.checkSemantic && lspClient && semanticTokens && !tokensFile) {
+                try {
+                    const { issues, skipped } = await checkSemanticTokenRequests(lspClient, fileUri, content, semanticTokens, {
+                        ranges: config.semanticRanges?.[fileRel],
+                        edits: config.edits?.[fileRel]
+                    });
+                    for (const reason of skipped) {
+                        console.warn(chalk.yellow(`  ${reason}`));
+                    }
+                    for (const issue of issues) {
+                        const after = issue.edit !== undefined ? ` after edit ${issue.edit + 1}` : '';
+                        console.error(chalk.red(`  ❌ ${fileRel} ${issue.request}${after}: ${issue.message}`));
+                    }
+                    if (issues.length > 0) {
+                        hasError = true;
+                    } else {
+                        console.log(chalk.green(`  ✅ Semantic tokens range and delta results match`));
+                    }
+                } catch (e) {
+                    console.error(chalk.red(`  ❌ ${fileRel}: ${e instanceof Error ? e.message : e}`));
+                    hasError = true;
+                }
             }
 
             // C. Merge
-            const result = merger.merge(content, tmTokens, semanticTokens, lspClient.legend);
+            const result = merger.merge(content, tmTokens, semanticTokens, legend, langId);
+
+            // C2. Scope assertions
+            if (options.assert) {
+                const failures = checkAssertions(assertions, config.assertions?.semantic
+                    ? (line, column) => {
+                        const range = result.find(r => r.startLine === line && r.startChar <= column && column < r.endChar);
+                        return range ? getMergedScopes(range) : null;
+                    }
+                    : (line, column) => tmTokens.find(t => t.line === line && t.startIndex <= column && column < t.endIndex)?.scopes ?? null
+                );
+
+                for (const { assertion, column, actual, missing, unexpected } of failures) {
+                    const expected = [...assertion.scopes, ...assertion.excludes.map(s => `- ${s}`)].join(' ');
+                    console.error(chalk.red(`  ❌ ${fileRel}:${assertion.fixtureLine} column ${column + 1}`));
+                    console.error(`     expected: ${expected}`);
+                    if (missing.length > 0) console.error(chalk.red(`     missing: ${missing.join(' ')}`));
+                    if (unexpected.length > 0) console.error(chalk.red(`     unexpected: ${unexpected.join(' ')}`));
+                    console.error(chalk.gray(`     actual: ${actual ? actual.join(' ') : '(no token)'}`));
+                }
+                if (failures.length > 0) {
+                    hasError = true;
+                } else {
+                    console.log(chalk.green(`  ✅ ${assertions.length} assertion(s) passed`));
+                }
+            }
 
             // D. Output
             const baseName = path.basename(filePath);
             const jsonPath = path.join(outDir, `${baseName}.tokens.json`);
             const htmlPath = path.join(outDir, `${baseName}.html`);
+            const profilePath = path.join(outDir, `${baseName}.profile.json`);
             
             const snapshotFileName = options.snapshotName 
                 ? `${baseName}.${options.snapshotName}.tokens.json`
@@ -172,10 +594,14 @@ program
             const snapshotPath = path.join(snapshotDir, snapshotFileName);
 
             Renderer.saveJson(result, jsonPath);
-            Renderer.renderHtml(result, htmlPath, config.theme || "Default Dark+");
+            Renderer.renderHtml(result, htmlPath, themeName || "Default Dark+", themeResolver.getEditorColors(), options.profile ? profileReport : null);
             
             console.log(`  Generated: ${jsonPath}`);
             console.log(`  Generated: ${htmlPath}`);
+            if (options.profile) {
+                Renderer.saveJson(profileReport, profilePath);
+                console.log(`  Generated: ${profilePath}`);
+            }
 
             // E. Snapshots
             if (options.update) {
@@ -206,7 +632,7 @@ program
                             const expectedJson = JSON.parse(expectedContent);
                             const snapshotLabel = options.snapshotName ? `Snapshot (${options.snapshotName})` : "Snapshot";
                             const generatedLabel = options.generatedName;
-                            Renderer.renderDiffHtml(expectedJson, result, diffPath, snapshotLabel, generatedLabel);
+                            Renderer.renderDiffHtml(expectedJson, result, diffPath, snapshotLabel, generatedLabel, themeResolver.getEditorColors());
                             console.error(chalk.yellow(`     Diff report: ${diffPath}`));
                         } catch (err) {
                             console.error(chalk.red(`     Failed to generate diff report: ${err}`));
@@ -218,8 +644,30 @@ program
             }
         }
 
+        // 6. Theme coverage across all files
+        if (options.coverage) {
+            const coverage = themeResolver.getCoverage();
+            const coverageJsonPath = path.join(outDir, 'theme-coverage.json');
+            const coverageHtmlPath = path.join(outDir, 'theme-coverage.html');
+
+            Renderer.saveJson(coverage, coverageJsonPath);
+            Renderer.renderCoverageHtml(coverage, coverageHtmlPath, themeName || "Default Dark+", themeResolver.getEditorColors());
+
+            const rules = [...coverage.tokenColors, ...coverage.semanticTokenColors];
+            const count = (status: string) => rules.filter(r => r.status === status).length;
+            console.log(chalk.blue(`Theme coverage: ${count('used')} used, ${count('shadowed')} always shadowed, ${count('unmatched')} never matched`));
+            console.log(`  Generated: ${coverageJsonPath}`);
+            console.log(`  Generated: ${coverageHtmlPath}`);
+        }
+
         // Cleanup
-        await lspClient.shutdown();
+        await lspClient?.shutdown();
+
+        if (recorder) {
+            const recordingPath = path.resolve(options.record);
+            recorder.save(recordingPath);
+            console.log(`Recorded LSP session: ${recordingPath}`);
+        }
         
         if (hasError) {
             console.error(chalk.red("\nVerification failed."));
@@ -1,50 +1,167 @@
-import { spawn, Subprocess } from "bun";
 import { 
     InitializeParams, 
     InitializeResult, 
     DidOpenTextDocumentParams, 
     SemanticTokensParams,
     SemanticTokens,
+    SemanticTokensDelta,
     SemanticTokensLegend,
+    ServerCapabilities,
+    TextDocumentSyncKind,
+    Range,
+    Registration,
+    RegistrationParams,
+    UnregistrationParams,
+    ConfigurationParams,
+    ConfigurationItem,
+    SemanticTokensRegistrationOptions,
+    ErrorCodes,
+    LSPErrorCodes,
     MarkupKind
 } from 'vscode-languageserver-protocol';
+import { LspTransport, ProcessOptions, ProcessTransport } from './transport.js';
+
+// Answers a request from the server, the return value is the result
+export type ServerRequestHandler = (params: any) => unknown | Promise<unknown>;
+
+/**
+ * When getSemanticTokens asks for the tokens of an opened document:
+ * - none: right away
+ * - progress: once all work done progress ($/progress) the server reported has ended
+ * - delay: after `delay` ms
+ * - stable: when `polls` results in a row (every `delay` ms) have the same tokens
+ * Waiting for progress or stable tokens gives up after `timeout` ms.
+ */
+export interface ReadinessOptions {
+    strategy: 'none' | 'progress' | 'delay' | 'stable';
+    delay?: number;
+    polls?: number;
+    timeout?: number;
+}
+
+export interface LspClientOptions {
+    requestTimeout?: number; // Milliseconds, 0 for none
+    retries?: number; // Retries of semantic token requests the server cancelled (ContentModified, ServerCancelled)
+    retryDelay?: number; // Milliseconds before the first retry, doubled for each further one
+    readiness?: ReadinessOptions;
+}
+
+// How the client presents itself to the server, see LspClient.start
+export interface LspStartOptions extends ProcessOptions {
+    initializationOptions?: unknown;
+    settings?: Record<string, unknown>; // Answers workspace/configuration, sent in didChangeConfiguration
+    tokenTypes?: string[]; // Semantic token types and modifiers the client claims to know
+    tokenModifiers?: string[];
+    multilineTokenSupport?: boolean;
+    overlappingTokenSupport?: boolean;
+    positionEncodings?: string[]; // In order of preference, semantic token columns are read as UTF-16
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export class LspClient {
-    private proc: Subprocess | null = null;
-    private buffer: Buffer = Buffer.alloc(0);
-    private messageQueue: any[] = [];
+    private transport: LspTransport;
+    private started = false;
     private pendingRequests = new Map<number | string, { resolve: (res: any) => void, reject: (err: any) => void }>();
+    private activeProgress = new Set<number | string>(); // Work done progress tokens between begin and end
+    private progressEnded = false; // Since the last didOpen of getSemanticTokens
+    private progressListeners = new Set<() => void>();
+    public exitError: Error | null = null; // Set when the server stopped on its own
     private nextId = 1;
-    private isClosed = false;
     public legend: SemanticTokensLegend | null = null;
     public capabilities: any = {};
+    public serverCapabilities: ServerCapabilities = {};
+    private versions = new Map<string, number>(); // Open documents -> version
+    private requestHandlers = new Map<string, ServerRequestHandler>();
+    private registrations = new Map<string, Registration>(); // Dynamic registrations by id
+    private rootUri = '';
+    private settings: Record<string, unknown> = {};
 
-    constructor(private command: string[]) {}
+    // A command starts the server as a child process that talks over stdio
+    constructor(command: string[] | LspTransport, private options: LspClientOptions = {}) {
+        this.transport = Array.isArray(command) ? new ProcessTransport(command) : command;
 
-    async start(rootUri: string) {
-        this.proc = spawn(this.command, {
-            stdin: "pipe",
-            stdout: "pipe",
-            stderr: "inherit", 
+        // Requests servers commonly send, they stall if nobody answers
+        this.onRequest('workspace/configuration', (params: ConfigurationParams) => params.items.map(item => this.getSetting(item)));
+        this.onRequest('client/registerCapability', (params: RegistrationParams) => {
+            params.registrations.forEach(r => this.register(r));
+            return null;
+        });
+        this.onRequest('client/unregisterCapability', (params: UnregistrationParams) => {
+            // The protocol misspells the property, see UnregistrationParams
+            params.unregisterations.forEach(u => this.unregister(u.id));
+            return null;
         });
+        this.onRequest('window/workDoneProgress/create', () => null);
+        this.onRequest('window/showMessageRequest', () => null);
+        this.onRequest('workspace/semanticTokens/refresh', () => null);
+        this.onRequest('workspace/workspaceFolders', () => [{ uri: this.rootUri, name: this.rootUri.split('/').pop() || 'root' }]);
+    }
+
+    /**
+     * Sets how a request from the server is answered, replacing the default handler.
+     * Requests without a handler are answered with a MethodNotFound error.
+     */
+    onRequest(method: string, handler: ServerRequestHandler) {
+        this.requestHandlers.set(method, handler);
+    }
+
+    // The settings section of a configuration item ("a.b" is settings["a.b"] or settings.a.b), null if unset
+    private getSetting(item: ConfigurationItem): unknown {
+        if (!item.section) return this.settings;
+        if (item.section in this.settings) return this.settings[item.section];
 
-        this.readLoop();
+        let value: unknown = this.settings;
+        for (const key of item.section.split('.')) {
+            if (typeof value !== 'object' || value === null || !(key in value)) return null;
+            value = (value as Record<string, unknown>)[key];
+        }
+        return value;
+    }
+
+    // Dynamic semanticTokens registrations bring the legend the server didn't send in initialize
+    private register(registration: Registration) {
+        this.registrations.set(registration.id, registration);
+        if (registration.method === 'textDocument/semanticTokens') {
+            const options = registration.registerOptions as SemanticTokensRegistrationOptions;
+            this.legend = options.legend;
+            this.serverCapabilities.semanticTokensProvider = options;
+        }
+    }
+
+    private unregister(id: string) {
+        const registration = this.registrations.get(id);
+        this.registrations.delete(id);
+        if (registration?.method === 'textDocument/semanticTokens') {
+            this.legend = null;
+            delete this.serverCapabilities.semanticTokensProvider;
+        }
+    }
+
+    async start(rootUri: string, options: LspStartOptions = {}) {
+        this.rootUri = rootUri;
+        this.settings = options.settings ?? {};
+        this.transport.start(msg => this.handleMessage(msg), error => this.handleClose(error), { env: options.env, cwd: options.cwd });
+        this.started = true;
 
         // Initialize handshake
         const initParams: InitializeParams = {
             processId: process.pid,
             rootUri: rootUri,
+            initializationOptions: options.initializationOptions,
             capabilities: {
                 textDocument: {
                     semanticTokens: {
-                        dynamicRegistration: false,
-                        tokenTypes: [], // Will be filled by server if we don't spec it, but client needs to say it supports it
-                        tokenModifiers: [],
+                        dynamicRegistration: true,
+                        tokenTypes: options.tokenTypes ?? [], // Will be filled by server if we don't spec it, but client needs to say it supports it
+                        tokenModifiers: options.tokenModifiers ?? [],
                         formats: ['relative'],
+                        multilineTokenSupport: options.multilineTokenSupport,
+                        overlappingTokenSupport: options.overlappingTokenSupport,
                         requests: {
-                            range: false,
+                            range: true,
                             full: {
-                                delta: false
+                                delta: true
                             }
                         }
                     },
@@ -56,7 +173,17 @@ export class LspClient {
                     }
                 },
                 workspace: {
-                    workspaceFolders: true
+                    workspaceFolders: true,
+                    configuration: true,
+                    semanticTokens: {
+                        refreshSupport: true
+                    }
+                },
+                window: {
+                    workDoneProgress: true
+                },
+                general: {
+                    positionEncodings: options.positionEncodings
                 }
             }
         };
@@ -67,6 +194,7 @@ export class LspClient {
         }
 
         const result = await this.sendRequest<InitializeResult>('initialize', initParams);
+        this.serverCapabilities = result.capabilities;
         
         // Capture legend
         if (result.capabilities.semanticTokensProvider && 'legend' in result.capabilities.semanticTokensProvider) {
@@ -75,89 +203,94 @@ export class LspClient {
 
         // Notify initialized
         this.sendNotification('initialized', {});
+        if (options.settings) {
+            // Servers that don't pull settings with workspace/configuration expect them pushed
+            this.sendNotification('workspace/didChangeConfiguration', { settings: options.settings });
+        }
         
         return result;
     }
 
-    private async readLoop() {
-        if (!this.proc || !this.proc.stdout) return;
-        
-        // Check if it's a stream (it should be because of "pipe")
-        if (typeof this.proc.stdout === 'number') {
-            console.error("STDOUT is a file descriptor, expected stream");
-            return;
-        }
-
-        // Create a reader from the web stream
-        const reader = this.proc.stdout.getReader();
-
-        try {
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-                
-                this.buffer = Buffer.concat([this.buffer, Buffer.from(value)]);
-                this.processBuffer();
+    private handleMessage(msg: any) {
+        if (msg.id !== undefined && msg.method) {
+            // Request from the server, its ids may overlap with ours
+            this.handleServerRequest(msg.id, msg.method, msg.params);
+        } else if (msg.id !== undefined && this.pendingRequests.has(msg.id)) {
+            // Response to a request
+            const handler = this.pendingRequests.get(msg.id)!;
+            this.pendingRequests.delete(msg.id);
+            if (msg.error) {
+                handler.reject(msg.error);
+            } else {
+                handler.resolve(msg.result);
             }
-        } catch (e) {
-            console.error("Error reading from LSP stdout:", e);
-        } finally {
-            this.isClosed = true;
+        } else if (msg.method === '$/progress') {
+            this.handleProgress(msg.params);
         }
+        // Other notifications from the server are ignored
     }
 
-    private processBuffer() {
-        while (true) {
-            // Check for Content-Length header
-            const headerMatch = this.buffer.indexOf('\r\n\r\n');
-            if (headerMatch === -1) return;
+    // Pending requests would never be answered
+    private handleClose(error: Error) {
+        this.exitError = error;
+        for (const { reject } of this.pendingRequests.values()) {
+            reject(error);
+        }
+        this.pendingRequests.clear();
+        this.progressListeners.forEach(listener => listener());
+    }
 
-            const headerPart = this.buffer.subarray(0, headerMatch).toString();
-            const lengthMatch = headerPart.match(/Content-Length: (\d+)/i);
-            
-            if (!lengthMatch) {
-                // Invalid header? discard line?
-                console.error("Invalid LSP Header:", headerPart);
-                this.buffer = this.buffer.subarray(headerMatch + 4);
-                continue;
-            }
+    private handleProgress(params: { token: number | string; value: any }) {
+        if (params.value?.kind === 'begin') {
+            this.activeProgress.add(params.token);
+        } else if (params.value?.kind === 'end') {
+            this.activeProgress.delete(params.token);
+            this.progressEnded = true;
+        }
+        this.progressListeners.forEach(listener => listener());
+    }
 
-            const contentLength = parseInt(lengthMatch[1], 10);
-            const bodyStart = headerMatch + 4;
-            
-            if (this.buffer.length < bodyStart + contentLength) {
-                // Incomplete message
-                return;
-            }
+    /**
+     * Resolves with true once some work done progress has ended since the last file
+     * was opened and none is active,
+     * false if that doesn't happen within `timeout` ms or the server stopped.
+     */
+    waitForProgress(timeout: number): Promise<boolean> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => done(false), timeout);
+            const check = () => {
+                if (this.exitError) done(false);
+                else if (this.progressEnded && this.activeProgress.size === 0) done(true);
+            };
+            const done = (ended: boolean) => {
+                clearTimeout(timer);
+                this.progressListeners.delete(check);
+                resolve(ended);
+            };
+            this.progressListeners.add(check);
+            check();
+        });
+    }
 
-            const bodyBuf = this.buffer.subarray(bodyStart, bodyStart + contentLength);
-            const bodyStr = bodyBuf.toString('utf8');
-            
-            // Advance buffer
-            this.buffer = this.buffer.subarray(bodyStart + contentLength);
+    private async handleServerRequest(id: number | string, method: string, params: any) {
+        const handler = this.requestHandlers.get(method);
+        if (!handler) {
+            this.sendResponse(id, undefined, { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${method}` });
+            return;
+        }
 
-            try {
-                const message = JSON.parse(bodyStr);
-                this.handleMessage(message);
-            } catch (e) {
-                console.error("Failed to parse LSP message:", e);
-            }
+        try {
+            this.sendResponse(id, (await handler(params)) ?? null);
+        } catch (e) {
+            this.sendResponse(id, undefined, { code: ErrorCodes.InternalError, message: e instanceof Error ? e.message : String(e) });
         }
     }
 
-    private handleMessage(msg: any) {
-        if (msg.id !== undefined && this.pendingRequests.has(msg.id)) {
-            // Response to a request
-            const handler = this.pendingRequests.get(msg.id)!;
-            this.pendingRequests.delete(msg.id);
-            if (msg.error) {
-                handler.reject(msg.error);
-            } else {
-                handler.resolve(msg.result);
-            }
-        } else {
-            // Notification or request from server -> ignore for this tool for now
-            // console.log("Received notification:", msg.method);
+    private sendResponse(id: number | string, result: unknown, error?: { code: number; message: string }) {
+        try {
+            this.transport.send(error ? { jsonrpc: "2.0", id, error } : { jsonrpc: "2.0", id, result });
+        } catch (e) {
+            console.error(`Failed to answer LSP request ${id}:`, e);
         }
     }
 
@@ -169,21 +302,29 @@ export class LspClient {
             method,
             params
         };
-        const json = JSON.stringify(msg);
-        const content = `Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`;
-        
+
         return new Promise((resolve, reject) => {
-            this.pendingRequests.set(id, { resolve, reject });
-            if (this.proc && this.proc.stdin) {
-                if (typeof this.proc.stdin === 'number') {
-                    reject(new Error("STDIN is a file descriptor, expected stream"));
-                    return;
-                }
-                const writer = this.proc.stdin;
-                writer.write(new TextEncoder().encode(content));
-                writer.flush();
-            } else {
-                reject(new Error("LSP process not running"));
+            if (this.exitError) {
+                reject(this.exitError);
+                return;
+            }
+
+            const timeout = this.options.requestTimeout ?? 30000;
+            const timer = timeout > 0 ? setTimeout(() => {
+                this.pendingRequests.delete(id);
+                this.sendNotification('$/cancelRequest', { id });
+                reject(new Error(`LSP request ${method} timed out after ${timeout} ms`));
+            }, timeout) : undefined;
+
+            this.pendingRequests.set(id, {
+                resolve: (result) => { clearTimeout(timer); resolve(result); },
+                reject: (error) => { clearTimeout(timer); reject(error); }
+            });
+            try {
+                this.transport.send(msg);
+            } catch (e) {
+                this.pendingRequests.get(id)!.reject(e);
+                this.pendingRequests.delete(id);
             }
         });
     }
@@ -194,19 +335,18 @@ export class LspClient {
             method,
             params
         };
-        const json = JSON.stringify(msg);
-        const content = `Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`;
-        
-        if (this.proc && this.proc.stdin) {
-            if (typeof this.proc.stdin === 'number') return;
-            const writer = this.proc.stdin;
-            writer.write(new TextEncoder().encode(content));
-            writer.flush();
+
+        try {
+            this.transport.send(msg);
+        } catch (e) {
+            console.error(`Failed to send LSP notification ${method}:`, e);
         }
     }
 
     async getSemanticTokens(uri: string, text: string, languageId: string = 'plaintext'): Promise<SemanticTokens | null> {
-        // Open
+        // Open, the progress strategy waits for progress that ends after this
+        this.versions.set(uri, 1);
+        this.progressEnded = false;
         this.sendNotification('textDocument/didOpen', {
             textDocument: {
                 uri,
@@ -216,20 +356,101 @@ export class LspClient {
             }
         });
 
-        // Request tokens
+        // Request tokens once the server is ready
         try {
-            const result = await this.sendRequest<SemanticTokens>('textDocument/semanticTokens/full', {
-                textDocument: { uri }
-            });
-            return result;
+            return await this.requestWhenReady(uri);
         } catch (e) {
-            console.error("Semantic tokens request failed:", e);
+            // A stopped server is reported through exitError
+            if (!this.exitError) console.error("Semantic tokens request failed:", e);
             return null;
         }
     }
 
+    private async requestWhenReady(uri: string): Promise<SemanticTokens | null> {
+        const readiness = this.options.readiness ?? { strategy: 'none' };
+        const timeout = readiness.timeout ?? 30000;
+
+        if (readiness.strategy === 'delay') {
+            await sleep(readiness.delay ?? 1000);
+        } else if (readiness.strategy === 'progress') {
+            if (!await this.waitForProgress(timeout) && !this.exitError) {
+                console.warn(`No work done progress ended within ${timeout} ms, requesting semantic tokens anyway`);
+            }
+        } else if (readiness.strategy === 'stable') {
+            // Poll until the tokens stop changing, e.g. while the server is indexing
+            const polls = readiness.polls ?? 3;
+            const deadline = Date.now() + timeout;
+            let result = await this.requestSemanticTokensFull(uri);
+            let sameResults = 1;
+            while (sameResults < polls) {
+                if (Date.now() >= deadline) {
+                    console.warn(`Semantic tokens still changed after ${timeout} ms, using the last result`);
+                    break;
+                }
+                await sleep(readiness.delay ?? 500);
+                const next = await this.requestSemanticTokensFull(uri);
+                sameResults = JSON.stringify(next?.data) === JSON.stringify(result?.data) ? sameResults + 1 : 1;
+                result = next;
+            }
+            return result;
+        }
+
+        return this.requestSemanticTokensFull(uri);
+    }
+
+    // Servers cancel requests while (re)computing, VS Code asks again in that case
+    private async requestWithRetry<T>(method: string, params: any): Promise<T> {
+        const retries = this.options.retries ?? 3;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.sendRequest<T>(method, params);
+            } catch (e) {
+                const code = (e as { code?: number })?.code;
+                if (attempt >= retries || (code !== LSPErrorCodes.ContentModified && code !== LSPErrorCodes.ServerCancelled)) {
+                    throw e;
+                }
+                await sleep((this.options.retryDelay ?? 200) * 2 ** attempt);
+            }
+        }
+    }
+
+    // Unlike getSemanticTokens, the requests below reject when the server returns an error
+
+    requestSemanticTokensFull(uri: string): Promise<SemanticTokens | null> {
+        return this.requestWithRetry<SemanticTokens | null>('textDocument/semanticTokens/full', { textDocument: { uri } });
+    }
+
+    requestSemanticTokensRange(uri: string, range: Range): Promise<SemanticTokens | null> {
+        return this.requestWithRetry<SemanticTokens | null>('textDocument/semanticTokens/range', { textDocument: { uri }, range });
+    }
+
+    requestSemanticTokensDelta(uri: string, previousResultId: string): Promise<SemanticTokens | SemanticTokensDelta | null> {
+        return this.requestWithRetry<SemanticTokens | SemanticTokensDelta | null>('textDocument/semanticTokens/full/delta', { textDocument: { uri }, previousResultId });
+    }
+
+    // Kind of didChange notifications the server expects, TextDocumentSyncKind.None if it wants none
+    get syncKind(): TextDocumentSyncKind {
+        const sync = this.serverCapabilities.textDocumentSync;
+        if (typeof sync === 'number') return sync;
+        return sync?.change ?? TextDocumentSyncKind.None;
+    }
+
+    /**
+     * Sends a didChange for an open document: the edit (`range` replaced by `text`) for
+     * servers with incremental sync, the new content of the document otherwise.
+     */
+    changeDocument(uri: string, newContent: string, change: { range: Range; text: string }) {
+        const version = (this.versions.get(uri) ?? 1) + 1;
+        this.versions.set(uri, version);
+
+        this.sendNotification('textDocument/didChange', {
+            textDocument: { uri, version },
+            contentChanges: [this.syncKind === TextDocumentSyncKind.Incremental ? change : { text: newContent }]
+        });
+    }
+
     async shutdown() {
-        if (!this.proc) return;
+        if (!this.started || this.exitError) return;
 
         try {
             await this.sendRequest('shutdown', {});
@@ -242,8 +463,6 @@ export class LspClient {
     }
 
     kill() {
-        if (this.proc) {
-            this.proc.kill();
-        }
+        this.transport.close();
     }
 }
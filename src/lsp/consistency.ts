@@ -0,0 +1,196 @@
+import { Position, Range, SemanticTokens, SemanticTokensEdit, SemanticTokensLegend, TextDocumentSyncKind } from 'vscode-languageserver-protocol';
+import type { LspClient } from './client.js';
+import { applyEdit, IncrementalEdit } from '../textmate/incremental.js';
+
+export interface SemanticRequestIssue {
+    request: 'range' | 'delta';
+    edit?: number; // Index of the scripted edit the delta was requested after
+    message: string;
+}
+
+// A decoded semantic token, compared as "line:character+length type.modifier"
+interface AbsoluteToken {
+    line: number;
+    character: number;
+    length: number;
+    text: string;
+}
+
+const MAX_LISTED_DIFFERENCES = 3;
+
+/**
+ * Decodes the relative `data` of a semantic tokens result into absolute tokens.
+ */
+function decodeTokens(data: number[], legend: SemanticTokensLegend | null): AbsoluteToken[] {
+    const tokens: AbsoluteToken[] = [];
+    let line = 0;
+    let character = 0;
+
+    for (let i = 0; i + 4 < data.length; i += 5) {
+        line += data[i];
+        character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+        const type = legend?.tokenTypes[data[i + 3]] ?? `type${data[i + 3]}`;
+        const modifiers = (legend?.tokenModifiers ?? []).filter((_, bit) => data[i + 4] & (1 << bit));
+
+        tokens.push({
+            line,
+            character,
+            length: data[i + 2],
+            text: `${line}:${character}+${data[i + 2]} ${[type, ...modifiers].join('.')}`
+        });
+    }
+    return tokens;
+}
+
+// Whether the token overlaps the range
+function isInRange(token: AbsoluteToken, range: Range): boolean {
+    const compare = (a: Position, b: Position) => a.line - b.line || a.character - b.character;
+    return compare({ line: token.line, character: token.character }, range.end) < 0
+        && compare({ line: token.line, character: token.character + token.length }, range.start) > 0;
+}
+
+// Lists tokens missing from or unexpected in `actual`, null if both have the same tokens
+function compareTokens(actual: AbsoluteToken[], expected: AbsoluteToken[]): string | null {
+    const actualTexts = new Set(actual.map(t => t.text));
+    const expectedTexts = new Set(expected.map(t => t.text));
+    const missing = expected.filter(t => !actualTexts.has(t.text)).map(t => t.text);
+    const unexpected = actual.filter(t => !expectedTexts.has(t.text)).map(t => t.text);
+    if (missing.length === 0 && unexpected.length === 0) return null;
+
+    const list = (texts: string[]) => texts.slice(0, MAX_LISTED_DIFFERENCES).join(', ') + (texts.length > MAX_LISTED_DIFFERENCES ? `, ... (${texts.length} total)` : '');
+    return [
+        missing.length > 0 ? `missing ${list(missing)}` : '',
+        unexpected.length > 0 ? `unexpected ${list(unexpected)}` : ''
+    ].filter(s => s).join('; ');
+}
+
+/**
+ * Applies the edits of a `semanticTokens/full/delta` response to the previous data.
+ * Edits refer to positions in the previous data and must not overlap.
+ */
+export function applySemanticTokensEdits(data: number[], edits: SemanticTokensEdit[]): number[] {
+    const result: number[] = [];
+    let position = 0;
+
+    for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+        if (edit.start < position || edit.start + edit.deleteCount > data.length) {
+            throw new Error(`Invalid delta edit (start ${edit.start}, deleteCount ${edit.deleteCount}) for ${data.length} numbers`);
+        }
+        result.push(...data.slice(position, edit.start), ...(edit.data ?? []));
+        position = edit.start + edit.deleteCount;
+    }
+    result.push(...data.slice(position));
+    return result;
+}
+
+function formatRange(range: Range): string {
+    return `${range.start.line + 1}:${range.start.character + 1}-${range.end.line + 1}:${range.end.character + 1}`;
+}
+
+function errorMessage(e: unknown): string {
+    return e instanceof Error ? e.message : (e as { message?: string })?.message ?? String(e);
+}
+
+/**
+ * Checks the range and delta paths of a server's semantic tokens against `full`,
+ * the result of semanticTokens/full for the open document `content`:
+ *
+ * - every range (by default each line) must have the tokens of the full result in it,
+ * - after each edit (sent as didChange), the previous result with the delta applied must
+ *   equal a fresh full result.
+ *
+ * The edits stay applied in the server's copy of the document.
+ */
+export async function checkSemanticTokenRequests(
+    client: LspClient,
+    uri: string,
+    content: string,
+    full: SemanticTokens,
+    options: { ranges?: Range[]; edits?: IncrementalEdit[] } = {}
+): Promise<{ issues: SemanticRequestIssue[]; skipped: string[] }> {
+    const provider = client.serverCapabilities.semanticTokensProvider;
+    const issues: SemanticRequestIssue[] = [];
+    const skipped: string[] = [];
+    let lines = content.split(/\r\n|\r|\n/);
+
+    // 1. Ranges, like the visible ranges VS Code requests while scrolling
+    if (provider?.range) {
+        const expected = decodeTokens(full.data, client.legend);
+        const ranges = options.ranges ?? lines.map((text, line) => ({ start: { line, character: 0 }, end: { line, character: text.length } }));
+
+        for (const range of ranges) {
+            try {
+                const result = await client.requestSemanticTokensRange(uri, range);
+                // Servers may return tokens outside the range, only the ones in it count
+                const difference = compareTokens(
+                    decodeTokens(result?.data ?? [], client.legend).filter(t => isInRange(t, range)),
+                    expected.filter(t => isInRange(t, range))
+                );
+                if (difference) {
+                    issues.push({ request: 'range', message: `Range ${formatRange(range)} differs from the full result: ${difference}` });
+                }
+            } catch (e) {
+                issues.push({ request: 'range', message: `Range ${formatRange(range)} request failed: ${errorMessage(e)}` });
+            }
+        }
+    } else {
+        skipped.push('The server does not support semanticTokens/range');
+    }
+
+    // 2. Deltas after each edit, like VS Code requests while typing
+    const edits = options.edits ?? [];
+    if (edits.length === 0) {
+        return { issues, skipped };
+    }
+    const supportsDelta = typeof provider?.full === 'object' && provider.full.delta === true;
+    if (!supportsDelta) {
+        skipped.push('The server does not support semanticTokens/full/delta');
+        return { issues, skipped };
+    }
+    if (client.syncKind === TextDocumentSyncKind.None) {
+        skipped.push('The server does not want didChange notifications');
+        return { issues, skipped };
+    }
+
+    let previous = full;
+    for (const [index, edit] of edits.entries()) {
+        if (previous.resultId === undefined) {
+            issues.push({ request: 'delta', edit: index, message: 'The previous result has no resultId, no delta can be requested' });
+            break;
+        }
+
+        const { lines: newLines, end } = applyEdit(lines, edit);
+        lines = newLines;
+        client.changeDocument(uri, lines.join('\n'), {
+            range: { start: { line: edit.line, character: edit.character }, end },
+            text: edit.text ?? ''
+        });
+
+        try {
+            let data: number[];
+            const delta = await client.requestSemanticTokensDelta(uri, previous.resultId);
+            if (delta && 'edits' in delta) {
+                data = applySemanticTokensEdits(previous.data, delta.edits);
+            } else {
+                data = delta?.data ?? []; // Servers may answer with a full result
+            }
+
+            if (data.length % 5 !== 0) {
+                issues.push({ request: 'delta', edit: index, message: `Delta result has ${data.length} numbers, not a multiple of 5` });
+            }
+
+            const fresh = await client.requestSemanticTokensFull(uri);
+            const difference = compareTokens(decodeTokens(data, client.legend), decodeTokens(fresh?.data ?? [], client.legend));
+            if (difference) {
+                issues.push({ request: 'delta', edit: index, message: `Delta result differs from a fresh full result: ${difference}` });
+            }
+            // The fresh result is the one the server remembers for the next delta
+            previous = fresh ?? { data: [] };
+        } catch (e) {
+            issues.push({ request: 'delta', edit: index, message: `Delta check failed: ${errorMessage(e)}` });
+            break;
+        }
+    }
+
+    return { issues, skipped };
+}
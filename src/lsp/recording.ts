@@ -0,0 +1,192 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { ErrorCodes, InitializeResult, LSPErrorCodes, SemanticTokens } from 'vscode-languageserver-protocol';
+import type { LspTransport, ProcessOptions } from './transport.js';
+
+const RECORDING_VERSION = 1;
+
+export interface RecordedDocument {
+    hash: string; // SHA-256 of the content sent in didOpen
+    tokens: SemanticTokens | null; // Last semanticTokens/full result before a didChange, after retries and readiness polls
+    error?: { code: number; message: string }; // Instead of tokens if no request succeeded
+}
+
+export interface LspRecording {
+    version: number;
+    initializeResult: InitializeResult;
+    serverRequests: { method: string; params: any }[]; // Sent by the server, e.g. client/registerCapability
+    documents: Record<string, RecordedDocument>; // URI (relative to the root URI if inside it) -> result
+    transcript: { direction: 'sent' | 'received'; message: any }[];
+}
+
+export function hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+// Documents are keyed relative to the root, so recordings work in other checkouts
+function documentKey(uri: string, rootUri: string): string {
+    const root = rootUri.endsWith('/') ? rootUri : rootUri + '/';
+    return rootUri && uri.startsWith(root) ? uri.substring(root.length) : uri;
+}
+
+/**
+ * Passes messages through to another transport and records the session: the
+ * initialize result, requests from the server and the semantic tokens of every
+ * opened document (the last result before it changes), next to the full transcript.
+ */
+export class LspRecorder implements LspTransport {
+    private rootUri = '';
+    private initializeId: number | string | null = null;
+    private pendingTokens = new Map<number | string, string>(); // semanticTokens/full request id -> document key
+    private unchanged = new Set<string>(); // Keys of documents opened and not changed since
+    private recording: LspRecording = {
+        version: RECORDING_VERSION,
+        initializeResult: { capabilities: {} },
+        serverRequests: [],
+        documents: {},
+        transcript: []
+    };
+
+    constructor(private transport: LspTransport) {}
+
+    start(onMessage: (msg: any) => void, onClose: (error: Error) => void, options?: ProcessOptions) {
+        this.transport.start(msg => {
+            this.received(msg);
+            onMessage(msg);
+        }, onClose, options);
+    }
+
+    send(msg: any) {
+        this.transport.send(msg);
+        this.recording.transcript.push({ direction: 'sent', message: msg });
+
+        if (msg.method === 'initialize') {
+            this.initializeId = msg.id;
+            this.rootUri = msg.params.rootUri ?? '';
+        } else if (msg.method === 'textDocument/didOpen') {
+            const { uri, text } = msg.params.textDocument;
+            const key = documentKey(uri, this.rootUri);
+            this.recording.documents[key] = { hash: hashContent(text), tokens: null };
+            this.unchanged.add(key);
+        } else if (msg.method === 'textDocument/didChange') {
+            // Later results don't describe the opened content
+            this.unchanged.delete(documentKey(msg.params.textDocument.uri, this.rootUri));
+        } else if (msg.method === 'textDocument/semanticTokens/full') {
+            const key = documentKey(msg.params.textDocument.uri, this.rootUri);
+            if (this.unchanged.has(key)) {
+                this.pendingTokens.set(msg.id, key);
+            }
+        }
+    }
+
+    private received(msg: any) {
+        this.recording.transcript.push({ direction: 'received', message: msg });
+
+        if (msg.id !== undefined && msg.method) {
+            this.recording.serverRequests.push({ method: msg.method, params: msg.params });
+        } else if (msg.id !== undefined && msg.id === this.initializeId) {
+            this.recording.initializeResult = msg.result;
+        } else if (msg.id !== undefined && this.pendingTokens.has(msg.id)) {
+            const document = this.recording.documents[this.pendingTokens.get(msg.id)!];
+            this.pendingTokens.delete(msg.id);
+            // The client keeps the last result, e.g. after retrying or polling until the tokens are stable
+            if (!msg.error) {
+                document.tokens = msg.result ?? null;
+                delete document.error;
+            } else if (document.tokens === null) {
+                document.error = { code: msg.error.code, message: msg.error.message };
+            }
+        }
+    }
+
+    close() {
+        this.transport.close();
+    }
+
+    save(filePath: string) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(this.recording, null, 2));
+    }
+}
+
+/**
+ * Serves a recorded session without a language server: initialize and the
+ * semanticTokens/full result of every recorded document, as long as the opened
+ * content is the one that was recorded. Other requests fail.
+ */
+export class ReplayTransport implements LspTransport {
+    private rootUri = '';
+    private openDocuments = new Map<string, string>(); // URI -> content
+    private onMessage: (msg: any) => void = () => {};
+
+    constructor(private recording: LspRecording, private source: string = 'the recording') {}
+
+    static load(filePath: string): ReplayTransport {
+        const recording = JSON.parse(fs.readFileSync(filePath, 'utf8')) as LspRecording;
+        if (recording.version !== RECORDING_VERSION) {
+            throw new Error(`Unsupported recording version ${recording.version} in ${filePath}, expected ${RECORDING_VERSION}`);
+        }
+        return new ReplayTransport(recording, filePath);
+    }
+
+    start(onMessage: (msg: any) => void) {
+        this.onMessage = onMessage;
+    }
+
+    /**
+     * Describes why the recording has no semantic tokens for `content` at `uri`, null if it has.
+     */
+    checkDocument(uri: string, content: string): string | null {
+        const document = this.recording.documents[documentKey(uri, this.rootUri)];
+        if (!document) {
+            return `${documentKey(uri, this.rootUri)} is not in ${this.source}, record the session again`;
+        }
+        if (document.hash !== hashContent(content)) {
+            return `${documentKey(uri, this.rootUri)} changed since ${this.source} was made, record the session again`;
+        }
+        return null;
+    }
+
+    send(msg: any) {
+        if (msg.id === undefined || !msg.method) {
+            if (msg.method === 'initialized') {
+                this.recording.serverRequests.forEach((request, i) => this.deliver({ jsonrpc: "2.0", id: `replay-${i}`, ...request }));
+            } else if (msg.method === 'textDocument/didOpen') {
+                this.openDocuments.set(msg.params.textDocument.uri, msg.params.textDocument.text);
+            }
+            // Other notifications and the client's responses have no effect on a recording
+            return;
+        }
+
+        const respond = (result: unknown) => this.deliver({ jsonrpc: "2.0", id: msg.id, result });
+        const fail = (code: number, message: string) => this.deliver({ jsonrpc: "2.0", id: msg.id, error: { code, message } });
+
+        if (msg.method === 'initialize') {
+            this.rootUri = msg.params.rootUri ?? '';
+            respond(this.recording.initializeResult);
+        } else if (msg.method === 'shutdown') {
+            respond(null);
+        } else if (msg.method === 'textDocument/semanticTokens/full') {
+            const uri = msg.params.textDocument.uri;
+            const problem = this.checkDocument(uri, this.openDocuments.get(uri) ?? '');
+            const document = this.recording.documents[documentKey(uri, this.rootUri)];
+            if (problem) {
+                fail(LSPErrorCodes.RequestFailed, problem);
+            } else if (document.error) {
+                fail(document.error.code, document.error.message);
+            } else {
+                respond(document.tokens);
+            }
+        } else {
+            fail(ErrorCodes.MethodNotFound, `${msg.method} is not replayed from recordings`);
+        }
+    }
+
+    // Answers arrive asynchronously, like from a server
+    private deliver(msg: any) {
+        queueMicrotask(() => this.onMessage(msg));
+    }
+
+    close() {}
+}
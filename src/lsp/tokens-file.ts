@@ -0,0 +1,94 @@
+import fs from 'node:fs';
+import JSON5 from 'json5';
+import { SemanticTokens, SemanticTokensLegend } from 'vscode-languageserver-protocol';
+
+// A semantic token as written by hand, `line` and `char` are 0-based like in LSP
+export interface ReadableSemanticToken {
+    line: number;
+    char: number;
+    length: number;
+    type: string;
+    modifiers?: string[];
+}
+
+/**
+ * Semantic tokens for one file instead of a language server: a legend and either
+ * the raw `data` of a semanticTokens/full result or a list of readable `tokens`.
+ * Without a legend, readable tokens get one with their types and modifiers.
+ */
+export interface SemanticTokensFile {
+    legend?: SemanticTokensLegend;
+    data?: number[];
+    tokens?: ReadableSemanticToken[];
+}
+
+const isCount = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+
+/**
+ * Encodes readable tokens relative to each other like a server does, sorted by position.
+ */
+export function encodeSemanticTokens(tokens: ReadableSemanticToken[], legend: SemanticTokensLegend): number[] {
+    tokens.forEach((token, i) => {
+        if (!isCount(token.line) || !isCount(token.char) || !isCount(token.length)) {
+            throw new Error(`Token ${i + 1} needs a line, char and length of 0 or more`);
+        }
+        if (!legend.tokenTypes.includes(token.type)) {
+            throw new Error(`Token ${i + 1} has the type "${token.type}", which is not in the legend`);
+        }
+        const unknown = (token.modifiers ?? []).find(m => !legend.tokenModifiers.includes(m));
+        if (unknown !== undefined) {
+            throw new Error(`Token ${i + 1} has the modifier "${unknown}", which is not in the legend`);
+        }
+    });
+
+    const data: number[] = [];
+    let line = 0;
+    let char = 0;
+    for (const token of [...tokens].sort((a, b) => a.line - b.line || a.char - b.char)) {
+        const modifiers = (token.modifiers ?? []).reduce((bits, m) => bits | (1 << legend.tokenModifiers.indexOf(m)), 0);
+        data.push(token.line - line, token.line === line ? token.char - char : token.char, token.length, legend.tokenTypes.indexOf(token.type), modifiers);
+        line = token.line;
+        char = token.char;
+    }
+    return data;
+}
+
+/**
+ * Reads a semantic tokens file (JSON or JSON5), throws if it is invalid.
+ */
+export function loadSemanticTokensFile(filePath: string): { legend: SemanticTokensLegend; tokens: SemanticTokens } {
+    let file: SemanticTokensFile;
+    try {
+        file = JSON5.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+        throw new Error(`Failed to read semantic tokens ${filePath}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    if ((file.data === undefined) === (file.tokens === undefined)) {
+        throw new Error(`Semantic tokens ${filePath} need either "data" or "tokens"`);
+    }
+
+    if (file.data !== undefined) {
+        if (!file.legend) {
+            throw new Error(`Semantic tokens ${filePath} have "data" but no "legend"`);
+        }
+        if (!Array.isArray(file.data) || file.data.length % 5 !== 0 || !file.data.every(isCount)) {
+            throw new Error(`Semantic tokens ${filePath}: "data" must be groups of 5 numbers of 0 or more`);
+        }
+        return { legend: file.legend, tokens: { data: file.data } };
+    }
+
+    const tokens = file.tokens!;
+    if (!Array.isArray(tokens)) {
+        throw new Error(`Semantic tokens ${filePath}: "tokens" must be a list`);
+    }
+    const legend = file.legend ?? {
+        tokenTypes: [...new Set(tokens.map(t => t.type))],
+        tokenModifiers: [...new Set(tokens.flatMap(t => t.modifiers ?? []))]
+    };
+    try {
+        return { legend, tokens: { data: encodeSemanticTokens(tokens, legend) } };
+    } catch (e) {
+        throw new Error(`Semantic tokens ${filePath}: ${e instanceof Error ? e.message : e}`);
+    }
+}
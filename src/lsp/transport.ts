@@ -0,0 +1,317 @@
+import { spawn, Subprocess } from "bun";
+import net from 'node:net';
+
+/**
+ * Carries JSON-RPC messages between the client and a language server.
+ */
+export interface LspTransport {
+    // `onClose` is called if the server goes away without close() being called
+    start(onMessage: (msg: any) => void, onClose: (error: Error) => void, options?: ProcessOptions): void;
+    send(msg: any): void; // Throws if the server isn't running
+    close(): void;
+}
+
+// For transports that start the server process
+export interface ProcessOptions {
+    env?: Record<string, string>; // Added to the environment of the tool
+    cwd?: string;
+}
+
+/**
+ * Where a socket transport finds the server:
+ * - tcp: connects to `host`:`port`
+ * - tcp-listen: listens on `host`:`port` (any free port by default) until the server connects
+ * - pipe: connects to a Unix domain socket or a Windows named pipe at `path`
+ * Gives up after `timeout` ms, connecting is retried until then as the server may still be starting.
+ */
+export type SocketTarget =
+    | { type: 'tcp'; host?: string; port: number; timeout?: number }
+    | { type: 'tcp-listen'; host?: string; port?: number; timeout?: number }
+    | { type: 'pipe'; path: string; timeout?: number };
+
+const STDERR_TAIL_LINES = 10;
+
+export function encodeMessage(msg: any): Buffer {
+    const json = JSON.stringify(msg);
+    return Buffer.from(`Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`, 'utf8');
+}
+
+/**
+ * Splits a byte stream into the JSON-RPC messages framed by Content-Length headers.
+ */
+export class MessageReader {
+    private buffer: Buffer = Buffer.alloc(0);
+
+    constructor(private onMessage: (msg: any) => void) {}
+
+    push(chunk: Uint8Array) {
+        this.buffer = Buffer.concat([this.buffer, Buffer.from(chunk)]);
+        this.processBuffer();
+    }
+
+    private processBuffer() {
+        while (true) {
+            // Check for Content-Length header
+            const headerMatch = this.buffer.indexOf('\r\n\r\n');
+            if (headerMatch === -1) return;
+
+            const headerPart = this.buffer.subarray(0, headerMatch).toString();
+            const lengthMatch = headerPart.match(/Content-Length: (\d+)/i);
+
+            if (!lengthMatch) {
+                // Invalid header? discard line?
+                console.error("Invalid LSP Header:", headerPart);
+                this.buffer = this.buffer.subarray(headerMatch + 4);
+                continue;
+            }
+
+            const contentLength = parseInt(lengthMatch[1], 10);
+            const bodyStart = headerMatch + 4;
+
+            if (this.buffer.length < bodyStart + contentLength) {
+                // Incomplete message
+                return;
+            }
+
+            const bodyBuf = this.buffer.subarray(bodyStart, bodyStart + contentLength);
+            const bodyStr = bodyBuf.toString('utf8');
+
+            // Advance buffer
+            this.buffer = this.buffer.subarray(bodyStart + contentLength);
+
+            try {
+                const message = JSON.parse(bodyStr);
+                this.onMessage(message);
+            } catch (e) {
+                console.error("Failed to parse LSP message:", e);
+            }
+        }
+    }
+}
+
+// Passes the stderr of the server through and keeps the last lines for the exit error
+class StderrTail {
+    private text = '';
+    readonly done: Promise<void>;
+
+    constructor(stderr: ReadableStream<Uint8Array>) {
+        this.done = this.read(stderr);
+    }
+
+    private async read(stderr: ReadableStream<Uint8Array>) {
+        const decoder = new TextDecoder();
+        for await (const chunk of stderr) {
+            process.stderr.write(chunk);
+            this.text = (this.text + decoder.decode(chunk, { stream: true })).slice(-4096);
+        }
+    }
+
+    exitError(code: number | null): Error {
+        const tail = this.text.trimEnd().split('\n').slice(-STDERR_TAIL_LINES).join('\n');
+        return new Error(`Language server exited with code ${code}${tail ? `, stderr:\n${tail}` : ''}`);
+    }
+}
+
+/**
+ * Runs the language server as a child process and talks to it over stdio.
+ * Its stderr is passed through, the last lines are kept for the exit error.
+ */
+export class ProcessTransport implements LspTransport {
+    private proc: Subprocess<"pipe", "pipe", "pipe"> | null = null;
+    private closing = false;
+
+    constructor(private command: string[]) {}
+
+    start(onMessage: (msg: any) => void, onClose: (error: Error) => void, options: ProcessOptions = {}) {
+        this.proc = spawn(this.command, {
+            env: { ...process.env, ...options.env },
+            cwd: options.cwd,
+            stdin: "pipe",
+            stdout: "pipe",
+            stderr: "pipe",
+        });
+
+        const stderr = new StderrTail(this.proc.stderr);
+        const reading = Promise.all([this.readLoop(new MessageReader(onMessage)), stderr.done]);
+        this.proc.exited.then(async (code) => {
+            // Messages and stderr written before the exit still count
+            await reading;
+            if (!this.closing) onClose(stderr.exitError(code));
+        });
+    }
+
+    private async readLoop(reader: MessageReader) {
+        if (!this.proc) return;
+
+        try {
+            for await (const chunk of this.proc.stdout) {
+                reader.push(chunk);
+            }
+        } catch (e) {
+            console.error("Error reading from LSP stdout:", e);
+        }
+    }
+
+    send(msg: any) {
+        if (!this.proc || this.proc.exitCode !== null) {
+            throw new Error("LSP process not running");
+        }
+
+        this.proc.stdin.write(encodeMessage(msg));
+        this.proc.stdin.flush();
+    }
+
+    close() {
+        this.closing = true;
+        if (this.proc) {
+            this.proc.kill();
+        }
+    }
+}
+
+/**
+ * Talks to the language server over a socket, for servers that are already running
+ * (e.g. attached to a debugger) or only speak over sockets. If a command is given,
+ * the server is started first; "${port}" in its arguments is replaced by the port.
+ * Messages sent before the connection is made are queued.
+ */
+export class SocketTransport implements LspTransport {
+    private socket: net.Socket | null = null;
+    private listener: net.Server | null = null;
+    private proc: Subprocess<"ignore", "inherit", "pipe"> | null = null;
+    private port: number;
+    private queue: Buffer[] = [];
+    private closing = false;
+    private closed = false;
+
+    constructor(private target: SocketTarget, private command: string[] = []) {
+        this.port = target.type === 'pipe' ? 0 : target.port ?? 0;
+    }
+
+    private get address(): string {
+        return this.target.type === 'pipe' ? this.target.path : `${this.target.host ?? '127.0.0.1'}:${this.port}`;
+    }
+
+    start(onMessage: (msg: any) => void, onClose: (error: Error) => void, options: ProcessOptions = {}) {
+        const reader = new MessageReader(onMessage);
+        const fail = (error: Error) => {
+            if (this.closing || this.closed) return;
+            this.closed = true;
+            this.queue = [];
+            onClose(error);
+        };
+
+        this.connect(options).then(socket => {
+            // Connected while closing, e.g. during a retry
+            if (this.closing) {
+                socket.destroy();
+                return;
+            }
+            this.socket = socket;
+            socket.on('data', (chunk: Buffer) => reader.push(chunk));
+            socket.on('error', () => {}); // Followed by 'close'
+            socket.on('close', async () => {
+                // The exit of a started server explains more than the closed connection
+                const code = this.proc ? await Promise.race([this.proc.exited, Bun.sleep(1000).then(() => undefined)]) : undefined;
+                fail(new Error(code !== undefined ? `Language server exited with code ${code}` : `Connection to the language server at ${this.address} closed`));
+            });
+            this.queue.forEach(data => socket.write(data));
+            this.queue = [];
+        }, fail);
+    }
+
+    private async connect(options: ProcessOptions): Promise<net.Socket> {
+        const timeout = this.target.timeout ?? 10000;
+        let accepted: Promise<net.Socket> | null = null;
+
+        if (this.target.type === 'tcp-listen') {
+            const listener = net.createServer();
+            this.listener = listener;
+            accepted = new Promise(resolve => listener.once('connection', socket => {
+                listener.close(); // Only the first server connects
+                resolve(socket);
+            }));
+            await new Promise<void>((resolve, reject) => {
+                listener.once('error', reject);
+                listener.listen(this.port, this.target.type === 'tcp-listen' ? this.target.host ?? '127.0.0.1' : undefined, resolve);
+            });
+            this.port = (listener.address() as net.AddressInfo).port;
+        }
+
+        let exited: Promise<never> = new Promise(() => {});
+        if (this.command.length > 0) {
+            this.proc = spawn(this.command.map(arg => arg.replaceAll('${port}', String(this.port))), {
+                env: { ...process.env, ...options.env },
+                cwd: options.cwd,
+                stdin: "ignore",
+                stdout: "inherit",
+                stderr: "pipe",
+            });
+            const stderr = new StderrTail(this.proc.stderr);
+            exited = this.proc.exited.then(async code => {
+                await stderr.done;
+                throw stderr.exitError(code);
+            });
+        }
+
+        if (accepted) {
+            let timer: Timer | undefined;
+            const timedOut = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`No connection from the language server at ${this.address} within ${timeout} ms`)), timeout);
+            });
+            try {
+                return await Promise.race([accepted, exited, timedOut]);
+            } finally {
+                clearTimeout(timer);
+            }
+        }
+
+        // The server may not be listening yet
+        const deadline = Date.now() + timeout;
+        while (true) {
+            const socket = await Promise.race([this.tryConnect(), exited]);
+            if (socket) return socket;
+            if (this.closing) throw new Error("LSP connection closed");
+            if (Date.now() >= deadline) throw new Error(`Could not connect to the language server at ${this.address} within ${timeout} ms`);
+            await Bun.sleep(100);
+        }
+    }
+
+    // Resolves with null if nobody listens at the address
+    private tryConnect(): Promise<net.Socket | null> {
+        return new Promise(resolve => {
+            const socket = this.target.type === 'pipe'
+                ? net.connect(this.target.path)
+                : net.connect(this.port, this.target.host ?? '127.0.0.1');
+            socket.once('connect', () => {
+                socket.removeAllListeners('error');
+                resolve(socket);
+            });
+            socket.once('error', () => {
+                socket.destroy();
+                resolve(null);
+            });
+        });
+    }
+
+    send(msg: any) {
+        if (this.closed) {
+            throw new Error("LSP connection closed");
+        }
+
+        if (this.socket) {
+            this.socket.write(encodeMessage(msg));
+        } else {
+            this.queue.push(encodeMessage(msg));
+        }
+    }
+
+    close() {
+        this.closing = true;
+        this.socket?.destroy();
+        this.listener?.close();
+        if (this.proc) {
+            this.proc.kill();
+        }
+    }
+}
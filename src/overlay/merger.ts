@@ -1,6 +1,8 @@
 import { SemanticTokens, SemanticTokensLegend } from 'vscode-languageserver-protocol';
-import { TextMateEngine, Token as TmToken } from '../textmate/grammar.js';
-import { ThemeResolver, ThemeColor } from '../theme/resolver.js';
+import { TextMateEngine, Token as TmToken, StandardTokenType, RuleTrace } from '../textmate/grammar.js';
+import { ThemeResolver, ThemeMatch, AttributeSource, RuleProvenance } from '../theme/resolver.js';
+import { SemanticSelector, parseSemanticSelector, matchSemanticSelector } from '../theme/semantic.js';
+import { SemanticTokenScopeContribution } from '../extension/loader.js';
 
 export interface StyledRange {
     startLine: number;
@@ -18,11 +20,26 @@ export interface StyledRange {
     scopes: string[]; // TextMate scopes or Semantic Token Type
     scopeColors?: string[]; // Resolved color for each individual scope
     activeScopeIndex?: number; // Index of the scope in 'scopes' that provided the color
+    injectedFrom?: Record<string, string>; // TextMate scope -> injection grammar that produced it
+    languageId?: string; // Language of the TextMate token (embedded languages differ from the document)
+    tokenType?: StandardTokenType; // Standard token type of the TextMate token, brackets only count in 'other'
+    grammarRule?: RuleTrace; // Grammar rule that matched the TextMate token (--trace)
+    scopeRules?: Record<string, RuleTrace>; // TextMate scope -> grammar rule that assigned it (--trace)
+    // Theme rule that supplied each attribute, scopeIndex is relative to 'scopes'
+    attributeSources?: {
+        foreground?: AttributeSource;
+        fontStyle?: AttributeSource;
+    };
 }
 
 // Internal state for a single character before merging
 interface TokenInputState {
     tmScopes: string[];
+    injectedFrom?: Record<string, string>;
+    languageId?: string;
+    tokenType?: StandardTokenType;
+    grammarRule?: RuleTrace;
+    scopeRules?: Record<string, RuleTrace>;
     semantic?: {
         type: string;
         modifiers: string[];
@@ -36,6 +53,12 @@ interface ResolvedStyle {
     scopes: string[];
     scopeColors: string[];
     activeScopeIndex: number;
+    attributeSources: StyledRange['attributeSources'];
+    injectedFrom?: Record<string, string>;
+    languageId?: string;
+    tokenType?: StandardTokenType;
+    grammarRule?: RuleTrace;
+    scopeRules?: Record<string, RuleTrace>;
 }
 
 // Default mapping from Standard LSP Token Types to TextMate scopes
@@ -80,24 +103,55 @@ const STANDARD_TOKEN_MAP: Record<string, string[]> = {
 };
 
 export class TokenMerger {
+    // Language of the document being merged, used for language specific semantic selectors (e.g. `function:swift`)
+    private languageId: string | undefined;
+
+    private semanticScopeRules: { selector: SemanticSelector; scopes: string[] }[];
+
     constructor(
         private tmEngine: TextMateEngine,
-        private theme: ThemeResolver
-    ) {}
+        private theme: ThemeResolver,
+        semanticTokenScopes: SemanticTokenScopeContribution[] = []
+    ) {
+        // Extension contributed mappings are scoped to their language like in VS Code
+        this.semanticScopeRules = semanticTokenScopes.flatMap(contribution =>
+            Object.entries(contribution.scopes).map(([selector, scopes]) => ({
+                selector: parseSemanticSelector(
+                    contribution.language && !selector.includes(':') ? `${selector}:${contribution.language}` : selector
+                ),
+                scopes
+            }))
+        );
+    }
 
     private getStandardFallbackScope(type: string, modifiers: string[]): string[] | undefined {
+        // 1. Mappings contributed by an extension (contributes.semanticTokenScopes), best score wins
+        let best: { score: number; scopes: string[] } | null = null;
+        for (const rule of this.semanticScopeRules) {
+            const score = matchSemanticSelector(rule.selector, type, modifiers, this.languageId);
+            if (score >= 0 && (!best || score >= best.score)) {
+                best = { score, scopes: rule.scopes };
+            }
+        }
+        if (best) return best.scopes;
+
+        // 2. VS Code's standard mapping
         const defaultLibPart = modifiers.includes('defaultLibrary') ? '.defaultLibrary' : '';
         const readOnlyPart = modifiers.includes('readonly') ? '.readonly' : '';
         const key = type + defaultLibPart + readOnlyPart;
         return STANDARD_TOKEN_MAP[key] || STANDARD_TOKEN_MAP[type + readOnlyPart] || STANDARD_TOKEN_MAP[type + defaultLibPart] || STANDARD_TOKEN_MAP[type];
     }
 
-    merge(content: string, tmTokens: TmToken[], semanticTokens: SemanticTokens | null, legend?: SemanticTokensLegend | null): StyledRange[] {
+    merge(content: string, tmTokens: TmToken[], semanticTokens: SemanticTokens | null, legend?: SemanticTokensLegend | null, languageId?: string): StyledRange[] {
         const lines = content.split(/\r\n|\r|\n/);
         const output: StyledRange[] = [];
+        this.languageId = languageId;
 
         // 1. Parse Semantic Tokens
-        const semanticMap = this.parseSemanticTokens(semanticTokens, legend);
+        // Themes can turn semantic highlighting off entirely ("semanticHighlighting": false)
+        const semanticMap = this.theme.isSemanticHighlightingEnabled()
+            ? this.parseSemanticTokens(semanticTokens, legend)
+            : this.parseSemanticTokens(null, legend);
 
         // 2. Process each line
         for (let i = 0; i < lines.length; i++) {
@@ -123,6 +177,11 @@ export class TokenMerger {
             for (const t of lineTmTokens) {
                 for (let k = t.startIndex; k < t.endIndex && k < lineLen; k++) {
                     lineState[k].tmScopes = t.scopes;
+                    lineState[k].injectedFrom = t.injectedFrom;
+                    lineState[k].languageId = t.languageId;
+                    lineState[k].tokenType = t.tokenType;
+                    lineState[k].grammarRule = t.grammarRule;
+                    lineState[k].scopeRules = t.scopeRules;
                 }
             }
 
@@ -130,11 +189,10 @@ export class TokenMerger {
             const lineSemTokens = semanticMap.get(i);
             if (lineSemTokens) {
                 for (const t of lineSemTokens) {
+                    // Shared by all characters of the token, so equal input is detected by identity
+                    const semantic = { type: t.type, modifiers: t.modifiers };
                     for (let k = t.start; k < t.end && k < lineLen; k++) {
-                        lineState[k].semantic = {
-                            type: t.type,
-                            modifiers: t.modifiers
-                        };
+                        lineState[k].semantic = semantic;
                     }
                 }
             }
@@ -144,6 +202,14 @@ export class TokenMerger {
             let currentStyle = this.resolveStyle(lineState[0]);
 
             for (let k = 1; k < lineLen; k++) {
+                // Characters of the same TextMate and semantic token share their style. Resolving
+                // once per token also makes the theme coverage counters count tokens, not characters.
+                const sameInput = lineState[k].tmScopes === lineState[k - 1].tmScopes
+                    && lineState[k].semantic === lineState[k - 1].semantic;
+                if (sameInput) {
+                    continue;
+                }
+
                 const nextStyle = this.resolveStyle(lineState[k]);
                 
                 // Check for equality to compress
@@ -163,7 +229,13 @@ export class TokenMerger {
                     source: currentStyle.source,
                     scopes: currentStyle.scopes,
                     scopeColors: currentStyle.scopeColors,
-                    activeScopeIndex: currentStyle.activeScopeIndex
+                    activeScopeIndex: currentStyle.activeScopeIndex,
+                    attributeSources: currentStyle.attributeSources,
+                    injectedFrom: currentStyle.injectedFrom,
+                    languageId: currentStyle.languageId,
+                    tokenType: currentStyle.tokenType,
+                    grammarRule: currentStyle.grammarRule,
+                    scopeRules: currentStyle.scopeRules
                 });
 
                 currentStart = k;
@@ -182,7 +254,13 @@ export class TokenMerger {
                 source: currentStyle.source,
                 scopes: currentStyle.scopes,
                 scopeColors: currentStyle.scopeColors,
-                activeScopeIndex: currentStyle.activeScopeIndex
+                activeScopeIndex: currentStyle.activeScopeIndex,
+                attributeSources: currentStyle.attributeSources,
+                injectedFrom: currentStyle.injectedFrom,
+                languageId: currentStyle.languageId,
+                tokenType: currentStyle.tokenType,
+                grammarRule: currentStyle.grammarRule,
+                scopeRules: currentStyle.scopeRules
             });
         }
 
@@ -192,6 +270,7 @@ export class TokenMerger {
 
     private applyBracketPairColorization(tokens: StyledRange[]): StyledRange[] {
         const bracketColors = this.theme.getBracketColors();
+        const unexpectedColor = this.theme.getUnexpectedBracketColor();
         const stack: string[] = []; // Stores opening brackets: '(', '[', '{'
         
         // We need to split tokens if they contain mixed content including brackets
@@ -199,27 +278,10 @@ export class TokenMerger {
         const expandedTokens: StyledRange[] = [];
 
         for (const token of tokens) {
-            // Check if token is in a scope that ignores brackets (strings, comments, regex)
-            // But allow brackets inside embedded contents (interpolations)
-            const hasString = token.scopes.some(s => s.includes('string'));
-            const hasComment = token.scopes.some(s => s.includes('comment'));
-            const hasRegex = token.scopes.some(s => s.includes('regex'));
-            
-            const isEmbedded = token.scopes.some(s => 
-                s.includes('embedded') || 
-                s.includes('interpolation') ||
-                // Special case for some languages where punctuation doesn't say 'embedded' explicitly 
-                // but the grammar breaks out of string.
-                // However, usually 'embedded' or 'interpolation' is present.
-                // One common pattern is punctuation.section.embedded...
-                s.includes('punctuation.section.embedded')
-            );
-
-            // Safe if:
-            // 1. Not a comment AND
-            // 2. Not a regex AND
-            // 3. (Not a string OR (Is a string AND Is embedded))
-            const isSafeScope = !hasComment && !hasRegex && (!hasString || isEmbedded);
+            // Like VS Code, brackets only count in tokens of the standard type 'other'. vscode-textmate
+            // derives the type from the scopes (string, comment, regex, with meta.embedded resetting
+            // it to other) and the grammar's tokenTypes configuration.
+            const isSafeScope = token.tokenType === undefined || token.tokenType === 'other';
 
             if (!isSafeScope || token.text.length === 0) {
                 expandedTokens.push(token);
@@ -252,6 +314,7 @@ export class TokenMerger {
 
                 // Determine Bracket Color
                 let color = token.foreground;
+                let colorSource: RuleProvenance | null = null;
                 let activeScopeIndex = token.activeScopeIndex; // Keep original scope index? 
                 // Actually, VS Code bracket coloring overrides standard token coloring.
                 // But we don't have a "scope" for it in the stack. 
@@ -260,7 +323,9 @@ export class TokenMerger {
                 if (['(', '[', '{'].includes(char)) {
                     // Opening
                     const depth = stack.length;
-                    color = bracketColors[depth % bracketColors.length];
+                    if (bracketColors.length > 0) {
+                        ({ color, source: colorSource } = bracketColors[depth % bracketColors.length]);
+                    }
                     stack.push(char);
                 } else {
                     // Closing
@@ -274,12 +339,13 @@ export class TokenMerger {
                     if (isValidPair) {
                         stack.pop();
                         const depth = stack.length; // Use depth of the pair (which is current length after pop)
-                        color = bracketColors[depth % bracketColors.length];
+                        if (bracketColors.length > 0) {
+                            ({ color, source: colorSource } = bracketColors[depth % bracketColors.length]);
+                        }
                     } else {
                         // Mismatch or empty stack. 
-                        // VS Code usually colors it "unexpected" (often red) or just leaves it.
-                        // We'll leave it as original color for now, or maybe default bracket color?
-                        // Let's stick to original token color to indicate broken structure/fallback.
+                        // VS Code colors it with editorBracketHighlight.unexpectedBracket.foreground
+                        ({ color, source: colorSource } = unexpectedColor);
                     }
                 }
 
@@ -293,7 +359,10 @@ export class TokenMerger {
                     // We append a virtual scope for the tooltip
                     scopes: [...token.scopes, "bracket-pair-colorization"],
                     scopeColors: token.scopeColors ? [...token.scopeColors, color] : undefined,
-                    activeScopeIndex: token.scopes.length // Point to our new virtual scope
+                    activeScopeIndex: token.scopes.length, // Point to our new virtual scope
+                    attributeSources: colorSource
+                        ? { ...token.attributeSources, foreground: { ...colorSource, scopeIndex: token.scopes.length } }
+                        : token.attributeSources
                 });
 
                 lastIdx = idx + 1;
@@ -317,8 +386,8 @@ export class TokenMerger {
         const tmScopes = state.tmScopes;
         const semantic = state.semantic;
 
-        // Base TextMate Color
-        const tmMatch = this.theme.resolve(tmScopes);
+        // Base TextMate Color, a semantic token counts towards the coverage once its attributes are picked
+        const tmMatch = this.theme.resolve(tmScopes, !semantic);
         
         // If no semantic token, just return TM
         if (!semantic) {
@@ -326,19 +395,23 @@ export class TokenMerger {
             // tmMatch.matchedScopeIndex is relative to tmScopes
             // Since scopes == tmScopes, it maps 1:1
             return {
-                foreground: tmMatch.color.foreground || '#D4D4D4',
-                fontStyle: tmMatch.color.fontStyle,
+                foreground: tmMatch.color.foreground || this.theme.getEditorColors().foreground,
+                fontStyle: tmMatch.color.fontStyle || undefined,
                 source: 'textmate',
                 scopes: tmScopes,
                 scopeColors: tmScopeColors,
-                activeScopeIndex: tmMatch.matchedScopeIndex
+                activeScopeIndex: tmMatch.matchedScopeIndex,
+                attributeSources: this.compactSources(tmMatch.sources),
+                injectedFrom: state.injectedFrom,
+                languageId: state.languageId,
+                tokenType: state.tokenType,
+                grammarRule: state.grammarRule,
+                scopeRules: state.scopeRules
             };
         }
 
         // Semantic Resolution Logic
-        let finalColor: ThemeColor | null = null;
         let finalSource: 'textmate' | 'semantic' = 'semantic';
-        let activeIndex = -1;
 
         // FIXME: debug why this hack is needed
         // Fix for SourceKit-LSP: attributes like @Test are reported as 'macro', 
@@ -355,42 +428,58 @@ export class TokenMerger {
         }
 
         // 1. Try explicit theme semanticTokenColors
-        const explicitColor = this.theme.resolveSemantic(semantic.type, semantic.modifiers);
+        const explicit = this.theme.resolveSemantic(semantic.type, semantic.modifiers, this.languageId, false);
         
-        // 2. Try Standard Fallback
+        // 2. Try Standard Fallback for every attribute the explicit rule leaves unset
         let fallbackScopes: string[] | undefined;
-        let standardColor: ThemeColor | null = null;
+        let standardMatch: ThemeMatch | null = null;
         
-        if (!explicitColor) {
+        if (!explicit || explicit.color.foreground === undefined || explicit.color.fontStyle === undefined) {
             fallbackScopes = this.getStandardFallbackScope(semantic.type, semantic.modifiers);
             if (fallbackScopes) {
                 // We treat this fallback resolution like a "TextMate" resolution 
                 // because it matches a scope.
-                
-                const fallbackMatch = this.theme.resolve(fallbackScopes);
-                standardColor = fallbackMatch.color;
+                standardMatch = this.theme.resolve(fallbackScopes, false);
             }
         }
 
-        // Decision Tree
-        if (explicitColor) {
-            finalColor = explicitColor;
-            activeIndex = 0; // Semantic type is always at 0
-            if (fallbackScopes) {
-                 finalScopes.push(`(fallback to standard scope: ${fallbackScopes.join(', ')})`);
+        // 3. Each attribute is resolved on its own: explicit semantic rule, then the
+        // standard fallback scope, then the TextMate color (like VS Code does)
+        type Origin = 'semantic' | 'standard' | 'textmate';
+        const pick = (attr: 'foreground' | 'fontStyle') => {
+            const explicitSource = explicit?.sources[attr];
+            if (explicit && explicitSource) {
+                return { value: explicit.color[attr], origin: 'semantic' as Origin, source: { ...explicitSource, scopeIndex: 0 } };
             }
-        } else if (standardColor) {
-             finalColor = standardColor;
-             if (fallbackScopes) {
-                 finalScopes.push(`(fallback to standard scope: ${fallbackScopes.join(', ')})`);
-                 // The fallback scope hint is just added
-                 activeIndex = finalScopes.length - 1;
-             }
-        } else {
+            const standardSource = standardMatch?.sources[attr];
+            if (standardMatch && standardSource) {
+                return { value: standardMatch.color[attr], origin: 'standard' as Origin, source: standardSource };
+            }
+            const tmSource = tmMatch.sources[attr];
+            if (tmSource) {
+                return { value: tmMatch.color[attr], origin: 'textmate' as Origin, source: tmSource };
+            }
+            return null;
+        };
+        const foreground = pick('foreground');
+        const fontStyle = pick('fontStyle');
+
+        // Rules of the TextMate scopes lose the attributes the semantic token took
+        this.theme.recordCoverage([
+            { semantic: { type: semantic.type, modifiers: semantic.modifiers, language: this.languageId } },
+            ...(standardMatch && fallbackScopes ? [{ scopes: fallbackScopes }] : []),
+            { scopes: tmScopes }
+        ]);
+
+        let fallbackIndex = -1;
+        if (fallbackScopes && (foreground?.origin === 'standard' || fontStyle?.origin === 'standard')) {
+            finalScopes.push(`(fallback to standard scope: ${fallbackScopes.join(', ')})`);
+            fallbackIndex = finalScopes.length - 1;
+        }
+
+        if (!foreground || foreground.origin === 'textmate') {
              // Fallback to TextMate
-             finalColor = tmMatch.color;
              finalScopes.push('(fallback to TextMate color)');
-             // Now append TM Scopes... we need to calculate index later
         }
 
         // Append TM Scopes for reference
@@ -398,12 +487,19 @@ export class TokenMerger {
         const tmStartIndex = finalScopes.length;
         finalScopes.push(...tmScopes);
 
-        // If we fell back to TM, calculate the active index now
-        if (!explicitColor && !standardColor) {
-             if (tmMatch.matchedScopeIndex !== -1) {
-                 activeIndex = tmStartIndex + tmMatch.matchedScopeIndex;
-             }
-        }
+        // Map each attribute's origin to its index in finalScopes
+        const toSource = (picked: ReturnType<typeof pick>): AttributeSource | undefined => {
+            if (!picked) return undefined;
+            const scopeIndex = picked.origin === 'semantic' ? 0
+                : picked.origin === 'standard' ? fallbackIndex
+                : tmStartIndex + picked.source.scopeIndex;
+            return { ...picked.source, scopeIndex };
+        };
+        const attributeSources = {
+            foreground: toSource(foreground),
+            fontStyle: toSource(fontStyle)
+        };
+        const activeIndex = attributeSources.foreground?.scopeIndex ?? -1;
 
         // Resolve Colors for Tooltip
         const scopeColors = finalScopes.map(s => {
@@ -421,17 +517,29 @@ export class TokenMerger {
         });
 
         return {
-            foreground: finalColor?.foreground || '#D4D4D4',
-            fontStyle: finalColor?.fontStyle,
+            foreground: foreground?.value || this.theme.getEditorColors().foreground,
+            fontStyle: fontStyle?.value || undefined,
             source: finalSource,
             scopes: finalScopes,
             scopeColors: scopeColors,
-            activeScopeIndex: activeIndex
+            activeScopeIndex: activeIndex,
+            attributeSources: this.compactSources(attributeSources),
+            injectedFrom: state.injectedFrom,
+            languageId: state.languageId,
+            tokenType: state.tokenType,
+            grammarRule: state.grammarRule,
+            scopeRules: state.scopeRules
         };
     }
 
+    // Omit the sources entirely when no theme rule styled the token, keeps the JSON output small
+    private compactSources(sources: StyledRange['attributeSources']): StyledRange['attributeSources'] {
+        return sources && (sources.foreground || sources.fontStyle) ? sources : undefined;
+    }
+
     private resolveScopeColor(scope: string): string {
-        return this.theme.resolve([scope]).color.foreground || '#D4D4D4';
+        // Tooltip only, doesn't count towards the theme coverage
+        return this.theme.resolve([scope], false).color.foreground || this.theme.getEditorColors().foreground;
     }
 
     private areStylesEqual(a: ResolvedStyle, b: ResolvedStyle): boolean {
@@ -440,6 +548,10 @@ export class TokenMerger {
             a.fontStyle === b.fontStyle &&
             a.source === b.source &&
             a.activeScopeIndex === b.activeScopeIndex &&
+            a.languageId === b.languageId &&
+            a.tokenType === b.tokenType &&
+            a.grammarRule === b.grammarRule &&
+            JSON.stringify(a.attributeSources) === JSON.stringify(b.attributeSources) &&
             JSON.stringify(a.scopes) === JSON.stringify(b.scopes)
         );
     }
@@ -3,24 +3,53 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import ejs from 'ejs';
 import { StyledRange } from './overlay/merger.js';
+import { EditorColors } from './theme/resolver.js';
+import { ThemeCoverageReport } from './theme/coverage.js';
+import { ProfileReport, formatTime } from './textmate/profile.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Dark+ editor colors, used when no theme is available (e.g. the standalone diff command)
+const DEFAULT_EDITOR_COLORS: EditorColors = { foreground: '#D4D4D4', background: '#1E1E1E' };
+
 export class Renderer {
-    static saveJson(ranges: StyledRange[], path: string) {
-        fs.writeFileSync(path, JSON.stringify(ranges, null, 2));
+    // Inline CSS for a token's resolved foreground and fontStyle
+    static tokenStyle(range: StyledRange): string {
+        const fontStyle = range.fontStyle || '';
+        const decorations = [
+            fontStyle.includes('underline') ? 'underline' : '',
+            fontStyle.includes('strikethrough') ? 'line-through' : ''
+        ].filter(d => d);
+
+        return `color: ${range.foreground};`
+            + (fontStyle.includes('italic') ? ' font-style: italic;' : '')
+            + (fontStyle.includes('bold') ? ' font-weight: bold;' : '')
+            + (decorations.length > 0 ? ` text-decoration: ${decorations.join(' ')};` : '');
     }
 
-    static renderHtml(ranges: StyledRange[], outputPath: string, themeName: string = "Visualized") {
+    static saveJson(data: StyledRange[] | ThemeCoverageReport | ProfileReport, path: string) {
+        fs.writeFileSync(path, JSON.stringify(data, null, 2));
+    }
+
+    // With a profile, a heat gutter shows the tokenization time of every line
+    static renderHtml(ranges: StyledRange[], outputPath: string, themeName: string = "Visualized", editorColors: EditorColors = DEFAULT_EDITOR_COLORS, profile: ProfileReport | null = null) {
         const templatePath = path.join(__dirname, 'templates', 'normal.ejs');
         const template = fs.readFileSync(templatePath, 'utf-8');
         
-        const html = ejs.render(template, { ranges, themeName }, { filename: templatePath });
+        const html = ejs.render(template, { ranges, themeName, editorColors, profile, formatTime, tokenStyle: Renderer.tokenStyle }, { filename: templatePath });
+        fs.writeFileSync(outputPath, html);
+    }
+
+    static renderCoverageHtml(report: ThemeCoverageReport, outputPath: string, themeName: string = "Visualized", editorColors: EditorColors = DEFAULT_EDITOR_COLORS) {
+        const templatePath = path.join(__dirname, 'templates', 'coverage.ejs');
+        const template = fs.readFileSync(templatePath, 'utf-8');
+
+        const html = ejs.render(template, { report, themeName, editorColors }, { filename: templatePath });
         fs.writeFileSync(outputPath, html);
     }
 
-    static renderDiffHtml(leftRanges: StyledRange[], rightRanges: StyledRange[], outputPath: string, leftName: string = "Snapshot", rightName: string = "Generated") {
+    static renderDiffHtml(leftRanges: StyledRange[], rightRanges: StyledRange[], outputPath: string, leftName: string = "Snapshot", rightName: string = "Generated", editorColors: EditorColors = DEFAULT_EDITOR_COLORS) {
         const lines = Math.max(
             leftRanges.length > 0 ? leftRanges[leftRanges.length - 1].endLine + 1 : 0,
             rightRanges.length > 0 ? rightRanges[rightRanges.length - 1].endLine + 1 : 0
@@ -87,10 +116,19 @@ export class Renderer {
                     }
 
                     const diffClass = isDiff ? ' diff-changed' : '';
-                    const style = `color: ${token.foreground};${token.fontStyle?.includes('italic') ? ' font-style: italic;' : ''}${token.fontStyle?.includes('bold') ? ' font-weight: bold;' : ''}${token.fontStyle?.includes('underline') ? ' text-decoration: underline;' : ''}`;
+                    const style = Renderer.tokenStyle(token);
                     const scopesAttr = token.scopes.join(', ').replace(/"/g, '&quot;');
                     const scopeColorsAttr = token.scopeColors ? token.scopeColors.join(',') : '';
                     const activeIndexAttr = token.activeScopeIndex !== undefined ? token.activeScopeIndex : -1;
+                    const rulesAttr = token.attributeSources
+                        ? JSON.stringify(token.attributeSources).replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+                        : '';
+                    const injectedAttr = token.injectedFrom
+                        ? JSON.stringify(token.injectedFrom).replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+                        : '';
+                    const grammarRulesAttr = token.grammarRule || token.scopeRules
+                        ? JSON.stringify({ rule: token.grammarRule, scopes: token.scopeRules }).replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+                        : '';
                     
                     const text = token.text
                         .replace(/&/g, "&amp;")
@@ -99,7 +137,7 @@ export class Renderer {
                         .replace(/"/g, "&quot;")
                         .replace(/'/g, "&#039;");
                     
-                    lineHtml += `<span class="${diffClass}" style="${style}" data-text="${text}" data-line="${token.startLine}" data-start="${token.startChar}" data-end="${token.endChar}" data-source="${token.source}" data-scopes="${scopesAttr}" data-foreground="${token.foreground}" data-scope-colors="${scopeColorsAttr}" data-active-index="${activeIndexAttr}">${text}</span>`;
+                    lineHtml += `<span class="${diffClass}" style="${style}" data-text="${text}" data-line="${token.startLine}" data-start="${token.startChar}" data-end="${token.endChar}" data-source="${token.source}" data-scopes="${scopesAttr}" data-foreground="${token.foreground}" data-scope-colors="${scopeColorsAttr}" data-active-index="${activeIndexAttr}" data-rules="${rulesAttr}" data-injected="${injectedAttr}" data-grammar-rules="${grammarRulesAttr}">${text}</span>`;
                     
                     lastChar = token.endChar;
                 }
@@ -119,7 +157,7 @@ export class Renderer {
         const templatePath = path.join(__dirname, 'templates', 'diff.ejs');
         const template = fs.readFileSync(templatePath, 'utf-8');
 
-        const html = ejs.render(template, { leftHtml, rightHtml, leftName, rightName }, { filename: templatePath });
+        const html = ejs.render(template, { leftHtml, rightHtml, leftName, rightName, editorColors }, { filename: templatePath });
         fs.writeFileSync(outputPath, html);
     }
 }
@@ -0,0 +1,130 @@
+import type { StyledRange } from '../overlay/merger.js';
+
+/**
+ * Inline scope assertions in the style of vscode-tmgrammar-test. An assertion is
+ * a comment line that checks the scopes of the closest source line above it:
+ *
+ *     let x = "a"
+ *     // ^^^ keyword.declaration
+ *     //     ^^^ string.quoted.double - comment
+ *     // <- keyword.declaration
+ *     // <~~~-- variable
+ *
+ * `^` marks the columns to check. `<-` starts at column 0, every further `-` adds a
+ * column and every `~` skips one. The expected scopes must appear in the token's
+ * scope stack in the given order, scopes after ` - ` must not appear at all.
+ */
+
+export interface ScopeAssertion {
+    line: number; // 0-based line in the content without assertion lines
+    fixtureLine: number; // 1-based line of the assertion in the fixture, for messages
+    columns: number[];
+    scopes: string[];
+    excludes: string[];
+}
+
+export interface AssertionFailure {
+    assertion: ScopeAssertion;
+    column: number; // First column that failed
+    actual: string[] | null; // null if there is no token at the column
+    missing: string[]; // Expected scopes not found (in order)
+    unexpected: string[]; // Excluded scopes that are present
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits a fixture into its source (assertion lines removed) and the assertions.
+ */
+export function parseAssertions(content: string, commentToken: string): { content: string; assertions: ScopeAssertion[] } {
+    const assertionLine = new RegExp(`^(\\s*${escapeRegExp(commentToken)}\\s*)((?:\\^+\\s*)+|<~*-+)\\s*(.*)$`);
+    const sourceLines: string[] = [];
+    const assertions: ScopeAssertion[] = [];
+
+    content.split(/\r\n|\r|\n/).forEach((text, index) => {
+        const match = text.match(assertionLine);
+        if (!match) {
+            sourceLines.push(text);
+            return;
+        }
+        if (sourceLines.length === 0) {
+            throw new Error(`Assertion on line ${index + 1} has no source line above it`);
+        }
+
+        const [, prefix, marker, rest] = match;
+        const columns: number[] = [];
+        if (marker.startsWith('<')) {
+            const skipped = marker.match(/~/g)?.length ?? 0;
+            const covered = marker.match(/-/g)!.length;
+            for (let c = skipped; c < skipped + covered; c++) columns.push(c);
+        } else {
+            for (let c = 0; c < marker.length; c++) {
+                if (marker[c] === '^') columns.push(prefix.length + c);
+            }
+        }
+
+        const [expected, excluded = ''] = rest.split(/(?:^|\s+)-\s+/);
+        assertions.push({
+            line: sourceLines.length - 1,
+            fixtureLine: index + 1,
+            columns,
+            scopes: expected.split(/\s+/).filter(s => s !== ''),
+            excludes: excluded.split(/\s+/).filter(s => s !== '')
+        });
+    });
+
+    return { content: sourceLines.join('\n'), assertions };
+}
+
+/**
+ * Checks every column of every assertion against the scopes returned by `scopesAt`.
+ * Reports each failing assertion once, with its first failing column.
+ */
+export function checkAssertions(assertions: ScopeAssertion[], scopesAt: (line: number, column: number) => string[] | null): AssertionFailure[] {
+    const failures: AssertionFailure[] = [];
+
+    for (const assertion of assertions) {
+        for (const column of assertion.columns) {
+            const actual = scopesAt(assertion.line, column);
+            if (!actual) {
+                failures.push({ assertion, column, actual, missing: assertion.scopes, unexpected: [] });
+                break;
+            }
+
+            // Expected scopes have to appear in order, but not necessarily next to each other
+            const missing: string[] = [];
+            let next = 0;
+            for (const scope of assertion.scopes) {
+                const found = actual.indexOf(scope, next);
+                if (found === -1) {
+                    missing.push(scope);
+                } else {
+                    next = found + 1;
+                }
+            }
+            const unexpected = assertion.excludes.filter(scope => actual.includes(scope));
+
+            if (missing.length > 0 || unexpected.length > 0) {
+                failures.push({ assertion, column, actual, missing, unexpected });
+                break;
+            }
+        }
+    }
+
+    return failures;
+}
+
+/**
+ * The scopes of a merged range for assertions: for semantic tokens the token type,
+ * then `type.modifier` for each modifier, then the TextMate scopes.
+ */
+export function getMergedScopes(range: StyledRange): string[] {
+    if (range.source !== 'semantic') return range.scopes;
+
+    const [type] = range.scopes;
+    const modifiers = range.scopes.find(s => s.startsWith('modifiers: '))?.substring('modifiers: '.length).split(',') ?? [];
+    const tmStart = range.scopes.indexOf('__TM_SCOPES__');
+    return [type, ...modifiers.map(m => `${type}.${m}`), ...(tmStart === -1 ? [] : range.scopes.slice(tmStart + 1))];
+}
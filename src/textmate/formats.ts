@@ -0,0 +1,51 @@
+import * as vsctm from 'vscode-textmate';
+import JSON5 from 'json5';
+import YAML from 'yaml';
+
+type GrammarFormat = 'json' | 'yaml' | 'plist';
+
+/**
+ * Picks the format from the file extension (`.json`/`.json5`, `.yaml`/`.yml`,
+ * `.tmLanguage`/`.plist`), falling back to the content for anything else
+ * (e.g. `.YAML-tmLanguage` or no extension at all).
+ */
+function detectFormat(content: string, filePath: string): GrammarFormat {
+    if (/\.json5?$/i.test(filePath)) return 'json';
+    if (/\.ya?ml$/i.test(filePath)) return 'yaml';
+    if (/\.(tmLanguage|plist)$/i.test(filePath)) return 'plist';
+
+    const start = content.trimStart(); // Also drops a BOM
+    if (start.startsWith('<')) return 'plist';
+    if (start.startsWith('{')) return 'json';
+    return 'yaml';
+}
+
+/**
+ * Parses a TextMate grammar file in JSON (or JSON5), YAML or plist format.
+ */
+export function parseGrammar(content: string, filePath: string): vsctm.IRawGrammar {
+    const format = detectFormat(content, filePath);
+
+    let grammar: unknown;
+    try {
+        switch (format) {
+            case 'json':
+                grammar = JSON5.parse(content);
+                break;
+            case 'yaml':
+                grammar = YAML.parse(content);
+                break;
+            case 'plist':
+                // Without a .json path vscode-textmate parses the content as plist
+                grammar = vsctm.parseRawGrammar(content);
+                break;
+        }
+    } catch (e) {
+        throw new Error(`Failed to parse grammar ${filePath} as ${format}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    if (!grammar || typeof grammar !== 'object' || Array.isArray(grammar)) {
+        throw new Error(`Failed to parse grammar ${filePath} as ${format}: not a grammar object`);
+    }
+    return grammar as vsctm.IRawGrammar;
+}
@@ -3,6 +3,9 @@ import path from 'node:path';
 import * as vsctm from 'vscode-textmate';
 import * as oniguruma from 'vscode-oniguruma';
 
+import { parseGrammar } from './formats.js';
+import { GrammarDiagnostic, lintGrammar } from './lint.js';
+
 // Locate onig.wasm in node_modules
 // In a real bundled app, this might need adjustment, but for a dev tool this works.
 const wasmPath = path.join(import.meta.dir, '../../node_modules/vscode-oniguruma/release/onig.wasm');
@@ -22,23 +25,290 @@ async function initWasm() {
     wasmInitialized = true;
 }
 
+export type StandardTokenType = 'other' | 'comment' | 'string' | 'regex';
+
 export interface Token {
     line: number;
     startIndex: number;
     endIndex: number;
     scopes: string[];
+    languageId: string; // Language of the token, differs from the main language inside embeddedLanguages
+    tokenType: StandardTokenType; // Decides whether brackets are matched, see tokenTypes
+    injectedFrom?: Record<string, string>; // scope -> injection grammar that produced it
+    grammarRule?: RuleTrace; // Innermost rule that matched, only when tracing
+    scopeRules?: Record<string, RuleTrace>; // scope -> rule that assigned it, only when tracing
+}
+
+// A grammar rule (or one of its captures) that assigned scopes
+export interface RuleTrace {
+    scopeName: string; // Grammar the rule belongs to
+    file: string; // Relative to the trace base directory, so traces are the same in every checkout
+    pointer: string; // JSON pointer of the rule in the grammar file, e.g. /repository/string/patterns/0
+    repositoryKey?: string; // Closest repository entry containing the rule
+    regex?: string; // The match or begin regex, for captures the regex the capture belongs to
+    captureGroup?: number;
+}
+
+export interface LineProfile {
+    line: number;
+    time: number; // Milliseconds spent in tokenizeLine
+    ruleStackDepth: number; // Depth of the rule stack at the end of the line, 1 at the top level
+    stoppedEarly: boolean; // The time limit was hit, the rest of the line is a single token
 }
 
+export interface TokenizeProfile {
+    totalTime: number; // Milliseconds, sum over all lines
+    lines: LineProfile[];
+}
+
+// A grammar as declared in an extension's package.json (contributes.grammars), with an absolute path
+export interface GrammarContribution {
+    scopeName: string;
+    path: string;
+    language?: string;
+    embeddedLanguages?: Record<string, string>; // scope -> language id
+    tokenTypes?: Record<string, string>; // scope selector -> 'string' | 'comment' | 'regex' | 'other'
+    injectTo?: string[];
+    injectionSelector?: string; // Overrides the injectionSelector of the grammar file
+}
+
+/**
+ * Collects every scope name a raw grammar can assign (`name`, `contentName`,
+ * including captures). Names with capture references like `$1` are skipped.
+ */
+function collectScopeNames(rawGrammar: unknown, names: Set<string> = new Set()): Set<string> {
+    if (Array.isArray(rawGrammar)) {
+        rawGrammar.forEach(item => collectScopeNames(item, names));
+    } else if (rawGrammar && typeof rawGrammar === 'object') {
+        for (const [key, value] of Object.entries(rawGrammar)) {
+            if ((key === 'name' || key === 'contentName') && typeof value === 'string') {
+                value.split(/\s+/).filter(n => n !== '' && !n.includes('$')).forEach(n => names.add(n));
+            } else if (typeof value === 'object') {
+                collectScopeNames(value, names);
+            }
+        }
+    }
+    return names;
+}
+
+// vscode-textmate's StandardTokenType values (the enum is not exported)
+const STANDARD_TOKEN_TYPES: Record<StandardTokenType, number> = {
+    "other": 0,
+    "comment": 1,
+    "string": 2,
+    "regex": 3
+};
+
+// Tracing appends `__trace_<index>` to the names of all rules and captures, the
+// index points into TextMateEngine.traces. These scopes never leave the engine.
+const TRACE_SCOPE_PREFIX = '__trace_';
+
+// Which regex the captures of each capture key belong to
+const CAPTURE_REGEX_KEYS: Record<string, string[]> = {
+    captures: ['match', 'begin'],
+    beginCaptures: ['begin'],
+    endCaptures: ['end'],
+    whileCaptures: ['while']
+};
+
+function escapePointer(key: string): string {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// Layout of the tokenizeLine2 metadata, see vscode-textmate's EncodedTokenAttributes
+const LANGUAGE_ID_MASK = 0xFF;
+const TOKEN_TYPE_MASK = 0x300;
+const TOKEN_TYPE_OFFSET = 8;
+
 export class TextMateEngine {
     private registry: vsctm.Registry | null = null;
     private grammar: vsctm.IGrammar | null = null;
+    // vscode-textmate identifies languages by number, index + 1 is the id
+    private languageIds: string[] = [];
+    // Scopes only injection grammars assign -> the injection grammar's scopeName
+    private injectedScopes: Map<string, string> = new Map();
+    private grammarScopes: Set<string> = new Set(); // Scopes assigned by all other grammars
+    private traces: RuleTrace[] = [];
 
+    /**
+     * With `traceBaseDir` (e.g. the config directory), every token records the grammar
+     * rule that matched it and the rule that assigned each of its scopes. The grammar
+     * files of the rules are given relative to it.
+     */
     constructor(
         private grammarPath: string, 
         private scopeName: string,
-        private extraGrammars: Record<string, string> = {}
+        private extraGrammars: Record<string, string> = {},
+        private contributions: GrammarContribution[] = [],
+        private traceBaseDir?: string
     ) {}
 
+    private getLanguageNumber(languageId: string): number {
+        let index = this.languageIds.indexOf(languageId);
+        if (index === -1) {
+            index = this.languageIds.push(languageId) - 1;
+        }
+        return index + 1;
+    }
+
+    /**
+     * Builds the vscode-textmate configuration (embedded languages and token types)
+     * from the contribution of the main grammar, like VS Code does when loading it.
+     */
+    private getGrammarConfiguration(contribution: GrammarContribution | undefined): vsctm.IGrammarConfiguration {
+        const embeddedLanguages: vsctm.IEmbeddedLanguagesMap = {};
+        for (const [scope, languageId] of Object.entries(contribution?.embeddedLanguages ?? {})) {
+            embeddedLanguages[scope] = this.getLanguageNumber(languageId);
+        }
+
+        const tokenTypes: Record<string, number> = {};
+        for (const [selector, type] of Object.entries(contribution?.tokenTypes ?? {})) {
+            if (type in STANDARD_TOKEN_TYPES) {
+                tokenTypes[selector] = STANDARD_TOKEN_TYPES[type as StandardTokenType];
+            } else {
+                console.warn(`Warning: Unknown token type '${type}' for '${selector}' in grammar '${contribution?.scopeName}'`);
+            }
+        }
+
+        return { embeddedLanguages, tokenTypes: tokenTypes as unknown as vsctm.ITokenTypeMap };
+    }
+
+    private readGrammar(grammarPath: string, scopeName: string): vsctm.IRawGrammar {
+        const content = fs.readFileSync(grammarPath, 'utf8');
+        const rawGrammar = parseGrammar(content, grammarPath);
+
+        // Remember which scopes come from injections, for the tooltip
+        const isInjection = this.contributions.some(c => c.scopeName === scopeName && c.injectTo?.length);
+        for (const name of collectScopeNames(rawGrammar)) {
+            if (isInjection) {
+                this.injectedScopes.set(name, scopeName);
+            } else {
+                this.grammarScopes.add(name);
+            }
+        }
+
+        if (this.traceBaseDir !== undefined) {
+            const file = path.relative(this.traceBaseDir, grammarPath).split(path.sep).join('/');
+            this.addTraceScopes(rawGrammar, '', { scopeName, file, pointer: '' });
+            for (const [selector, rule] of Object.entries((rawGrammar as any).injections ?? {})) {
+                this.addTraceScopes(rule, `/injections/${escapePointer(selector)}`, { scopeName, file, pointer: '' });
+            }
+        }
+        return rawGrammar;
+    }
+
+    private traceScope(trace: RuleTrace): string {
+        return TRACE_SCOPE_PREFIX + (this.traces.push(trace) - 1);
+    }
+
+    /**
+     * Appends a trace scope to the name (and contentName) of every rule with a
+     * `match` or `begin`, and to every capture, so tokens tell which rule produced them.
+     */
+    private addTraceScopes(rule: any, pointer: string, parent: RuleTrace) {
+        if (!rule || typeof rule !== 'object') return;
+        const at: RuleTrace = { ...parent, pointer };
+
+        if (typeof rule.match === 'string' || typeof rule.begin === 'string') {
+            const scope = this.traceScope({ ...at, regex: rule.match ?? rule.begin });
+            rule.name = typeof rule.name === 'string' ? `${rule.name} ${scope}` : scope;
+            if (typeof rule.contentName === 'string') {
+                rule.contentName = `${rule.contentName} ${scope}`;
+            }
+        }
+
+        for (const [key, regexKeys] of Object.entries(CAPTURE_REGEX_KEYS)) {
+            if (!rule[key] || typeof rule[key] !== 'object') continue;
+            const regex = regexKeys.map(k => rule[k]).find(r => typeof r === 'string');
+            for (const [group, capture] of Object.entries<any>(rule[key])) {
+                if (!capture || typeof capture !== 'object') continue;
+                const capturePointer = `${pointer}/${key}/${escapePointer(group)}`;
+                const scope = this.traceScope({ ...at, pointer: capturePointer, regex, captureGroup: Number(group) });
+                capture.name = typeof capture.name === 'string' ? `${capture.name} ${scope}` : scope;
+                (capture.patterns ?? []).forEach((p: any, i: number) => this.addTraceScopes(p, `${capturePointer}/patterns/${i}`, at));
+            }
+        }
+
+        if (Array.isArray(rule.patterns)) {
+            rule.patterns.forEach((p: any, i: number) => this.addTraceScopes(p, `${pointer}/patterns/${i}`, at));
+        }
+        for (const [name, entry] of Object.entries(rule.repository ?? {})) {
+            this.addTraceScopes(entry, `${pointer}/repository/${escapePointer(name)}`, { ...at, repositoryKey: name });
+        }
+    }
+
+    /**
+     * Removes the trace scopes of a traced token. Every scope belongs to the rule
+     * whose trace scope follows it, the root scope belongs to no rule.
+     */
+    private untrace(scopes: string[]): Pick<Token, 'scopes' | 'grammarRule' | 'scopeRules'> {
+        const plain: string[] = [];
+        const scopeRules: Record<string, RuleTrace> = {};
+        let grammarRule: RuleTrace | undefined;
+        let pending: string[] = [];
+
+        scopes.forEach((scope, index) => {
+            if (scope.startsWith(TRACE_SCOPE_PREFIX)) {
+                grammarRule = this.traces[Number(scope.substring(TRACE_SCOPE_PREFIX.length))];
+                pending.forEach(s => scopeRules[s] = grammarRule!);
+                pending = [];
+            } else {
+                plain.push(scope);
+                if (index > 0) pending.push(scope);
+            }
+        });
+
+        return { scopes: plain, grammarRule, scopeRules: Object.keys(scopeRules).length > 0 ? scopeRules : undefined };
+    }
+
+    private findGrammarPath(scopeName: string): string | undefined {
+        if (scopeName === this.scopeName) return this.grammarPath;
+        return this.extraGrammars[scopeName] ?? this.contributions.find(c => c.scopeName === scopeName)?.path;
+    }
+
+    /**
+     * Lints the main grammar and every extra, contributed or injected grammar
+     * (see lintGrammar). Doesn't require init().
+     */
+    async lint(): Promise<GrammarDiagnostic[]> {
+        await initWasm();
+
+        const rawGrammars = new Map<string, any | null>();
+        const load = (scopeName: string) => {
+            if (!rawGrammars.has(scopeName)) {
+                const grammarPath = this.findGrammarPath(scopeName);
+                try {
+                    rawGrammars.set(scopeName, grammarPath && fs.existsSync(grammarPath)
+                        ? parseGrammar(fs.readFileSync(grammarPath, 'utf8'), grammarPath)
+                        : null);
+                } catch {
+                    rawGrammars.set(scopeName, null); // Reported when the grammar itself is linted
+                }
+            }
+            return rawGrammars.get(scopeName);
+        };
+
+        const scopeNames = new Set([this.scopeName, ...Object.keys(this.extraGrammars), ...this.contributions.map(c => c.scopeName)]);
+        const diagnostics: GrammarDiagnostic[] = [];
+        for (const scopeName of scopeNames) {
+            const grammarPath = this.findGrammarPath(scopeName)!;
+            if (!fs.existsSync(grammarPath)) {
+                diagnostics.push({ severity: 'error', file: grammarPath, pointer: '', message: `Grammar file for scope '${scopeName}' not found` });
+                continue;
+            }
+
+            let rawGrammar: vsctm.IRawGrammar;
+            try {
+                rawGrammar = parseGrammar(fs.readFileSync(grammarPath, 'utf8'), grammarPath);
+            } catch (e) {
+                diagnostics.push({ severity: 'error', file: grammarPath, pointer: '', message: e instanceof Error ? e.message : String(e) });
+                continue;
+            }
+            diagnostics.push(...lintGrammar(rawGrammar, grammarPath, load));
+        }
+        return diagnostics;
+    }
+
     async init() {
         await initWasm();
 
@@ -50,55 +320,147 @@ export class TextMateEngine {
             loadGrammar: async (scopeName) => {
                 if (scopeName === this.scopeName) {
                     // Load the main grammar
-                    const content = fs.readFileSync(this.grammarPath, 'utf8');
-                    return vsctm.parseRawGrammar(content, this.grammarPath);
+                    return this.readGrammar(this.grammarPath, scopeName);
                 }
                 
-                // Check extra grammars
-                if (this.extraGrammars[scopeName]) {
-                     const extraPath = this.extraGrammars[scopeName];
+                // Check extra grammars, then grammars contributed by an extension (or injections from the config)
+                const contribution = this.contributions.find(c => c.scopeName === scopeName);
+                const extraPath = this.extraGrammars[scopeName] ?? contribution?.path;
+                if (extraPath) {
                      if (fs.existsSync(extraPath)) {
-                         const content = fs.readFileSync(extraPath, 'utf8');
-                         return vsctm.parseRawGrammar(content, extraPath);
+                         const rawGrammar = this.readGrammar(extraPath, scopeName);
+                         return contribution?.injectionSelector
+                             ? { ...rawGrammar, injectionSelector: contribution.injectionSelector }
+                             : rawGrammar;
                      } else {
                          console.warn(`Warning: Extra grammar for scope '${scopeName}' not found at '${extraPath}'`);
                      }
                 }
                 
                 return null;
+            },
+            getInjections: (scopeName) => {
+                const injections = this.contributions
+                    .filter(c => c.injectTo?.includes(scopeName))
+                    .map(c => c.scopeName);
+                return injections.length > 0 ? injections : undefined;
             }
         });
 
-        this.grammar = await this.registry.loadGrammar(this.scopeName);
+        const mainContribution = this.contributions.find(c => c.scopeName === this.scopeName);
+        const initialLanguage = this.getLanguageNumber(mainContribution?.language ?? this.scopeName);
+        this.grammar = await this.registry.loadGrammarWithConfiguration(
+            this.scopeName,
+            initialLanguage,
+            this.getGrammarConfiguration(mainContribution)
+        );
         if (!this.grammar) {
             throw new Error(`Failed to load grammar for scope ${this.scopeName}`);
         }
     }
 
-    tokenize(content: string): Token[] {
-        if (!this.grammar) {
-            throw new Error("Grammar not initialized. Call init() first.");
+    /**
+     * Decodes the language and standard token type from the binary tokens of
+     * tokenizeLine2 for the token starting at `startIndex`.
+     */
+    private decodeMetadata(binaryTokens: Uint32Array, startIndex: number): { languageId: string; tokenType: StandardTokenType } {
+        // Binary tokens are [startIndex, metadata] pairs and may span several scope tokens
+        let metadata = 0;
+        for (let k = 0; k < binaryTokens.length; k += 2) {
+            if (binaryTokens[k] > startIndex) break;
+            metadata = binaryTokens[k + 1];
         }
 
+        const languageNumber = metadata & LANGUAGE_ID_MASK;
+        const tokenTypeNumber = (metadata & TOKEN_TYPE_MASK) >>> TOKEN_TYPE_OFFSET;
+        const tokenType = (Object.keys(STANDARD_TOKEN_TYPES) as StandardTokenType[])
+            .find(type => STANDARD_TOKEN_TYPES[type] === tokenTypeNumber) ?? 'other';
+
+        return { languageId: this.languageIds[languageNumber - 1] ?? this.languageIds[0], tokenType };
+    }
+
+    tokenize(content: string, timeLimit: number = 0): Token[] {
+        return this.tokenizeWithProfile(content, timeLimit).tokens;
+    }
+
+    /**
+     * Tokenizes like `tokenize` and times every tokenizeLine call. With a `timeLimit`
+     * (milliseconds per line, 0 for none) slow lines stop early like they do in VS Code.
+     */
+    tokenizeWithProfile(content: string, timeLimit: number = 0): { tokens: Token[]; profile: TokenizeProfile } {
         const lines = content.split(/\r\n|\r|\n/);
-        let ruleStack: vsctm.StateStack | null = vsctm.INITIAL;
+        let ruleStack: vsctm.StateStack = vsctm.INITIAL;
         const tokens: Token[] = [];
+        const profile: TokenizeProfile = { totalTime: 0, lines: [] };
+
+        for (let i = 0; i < lines.length; i++) {
+            const result = this.tokenizeLine(lines[i], i, ruleStack, timeLimit);
+            ruleStack = result.ruleStack;
+
+            profile.totalTime += result.time;
+            profile.lines.push({ line: i, time: result.time, ruleStackDepth: ruleStack.depth, stoppedEarly: result.stoppedEarly });
+            tokens.push(...result.tokens);
+        }
+
+        return { tokens, profile };
+    }
 
+    /**
+     * Tokenizes all lines and keeps the rule stack at the end of every line,
+     * the state VS Code stores to retokenize from an edited line.
+     */
+    tokenizeLines(lines: string[]): { tokens: Token[][]; ruleStacks: vsctm.StateStack[] } {
+        const tokens: Token[][] = [];
+        const ruleStacks: vsctm.StateStack[] = [];
+
+        let ruleStack: vsctm.StateStack = vsctm.INITIAL;
         for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const lineTokens = this.grammar.tokenizeLine(line, ruleStack);
-            ruleStack = lineTokens.ruleStack;
-
-            for (const t of lineTokens.tokens) {
-                tokens.push({
-                    line: i,
-                    startIndex: t.startIndex,
-                    endIndex: t.endIndex,
-                    scopes: t.scopes
-                });
+            const result = this.tokenizeLine(lines[i], i, ruleStack);
+            ruleStack = result.ruleStack;
+            tokens.push(result.tokens);
+            ruleStacks.push(ruleStack);
+        }
+        return { tokens, ruleStacks };
+    }
+
+    /**
+     * Tokenizes a single line (number `line`) starting from `ruleStack`, the state
+     * at the end of the previous line (vsctm.INITIAL for the first line).
+     */
+    tokenizeLine(text: string, line: number, ruleStack: vsctm.StateStack, timeLimit: number = 0): { tokens: Token[]; ruleStack: vsctm.StateStack; time: number; stoppedEarly: boolean } {
+        if (!this.grammar) {
+            throw new Error("Grammar not initialized. Call init() first.");
+        }
+
+        // vscode-textmate has no single pass for both: the scopes come from tokenizeLine, the
+        // language and token type from the binary tokens of tokenizeLine2 with the same start
+        // state. Both passes are part of the time.
+        const start = performance.now();
+        const lineTokens = this.grammar.tokenizeLine(text, ruleStack, timeLimit);
+        const binaryTokens = this.grammar.tokenizeLine2(text, ruleStack, timeLimit).tokens;
+        const time = performance.now() - start;
+
+        const tokens: Token[] = [];
+        for (const t of lineTokens.tokens) {
+            const token: Token = {
+                line,
+                startIndex: t.startIndex,
+                endIndex: t.endIndex,
+                scopes: t.scopes,
+                ...this.decodeMetadata(binaryTokens, t.startIndex),
+                ...(this.traceBaseDir !== undefined ? this.untrace(t.scopes) : {})
+            };
+
+            // Scopes a regular grammar also assigns can't be attributed to the injection
+            for (const scope of token.scopes) {
+                const injection = this.injectedScopes.get(scope);
+                if (injection && !this.grammarScopes.has(scope)) {
+                    token.injectedFrom = { ...token.injectedFrom, [scope]: injection };
+                }
             }
+            tokens.push(token);
         }
 
-        return tokens;
+        return { tokens, ruleStack: lineTokens.ruleStack, time, stoppedEarly: lineTokens.stoppedEarly };
     }
 }
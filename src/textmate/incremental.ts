@@ -0,0 +1,200 @@
+import * as vsctm from 'vscode-textmate';
+import type { TextMateEngine, Token } from './grammar.js';
+
+// An edit in the style of typing in the editor: at `line`:`character`, delete
+// `deleteCount` characters (line breaks count as one) and insert `text`
+export interface IncrementalEdit {
+    line: number;
+    character: number;
+    deleteCount?: number;
+    text?: string;
+}
+
+export interface IncrementalIssue {
+    edit?: number; // Index of the scripted edit
+    clearedLine?: number; // 0-based line that was cleared, when checking each line
+    line: number; // 0-based line in the document at that point
+    kind: 'tokens' | 'state';
+    message: string;
+}
+
+// A document as VS Code keeps it: the lines with their tokens and the rule stack after each line
+interface TokenizedDocument {
+    lines: string[];
+    tokens: Token[][];
+    ruleStacks: vsctm.StateStack[];
+}
+
+function formatToken(token: Token | undefined): string {
+    return token ? `${token.startIndex}-${token.endIndex} ${token.scopes.join(' ')}` : '(none)';
+}
+
+// Describes the first difference between the tokens of a line, null if they are equal
+function compareLineTokens(actual: Token[], expected: Token[]): string | null {
+    for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+        const a = actual[i];
+        const e = expected[i];
+        if (!a || !e || a.startIndex !== e.startIndex || a.endIndex !== e.endIndex || a.scopes.join(' ') !== e.scopes.join(' ')) {
+            return `incremental ${formatToken(a)}, full ${formatToken(e)}`;
+        }
+    }
+    return null;
+}
+
+function stateBefore(document: TokenizedDocument, line: number): vsctm.StateStack {
+    return line > 0 ? document.ruleStacks[line - 1] : vsctm.INITIAL;
+}
+
+/**
+ * Applies an edit to the lines of a document. `end` is the position (in the old
+ * document) where the deleted text ends, for LSP didChange ranges.
+ */
+export function applyEdit(lines: string[], edit: IncrementalEdit): { lines: string[]; removedLines: number; insertedLines: number; end: { line: number; character: number } } {
+    if (edit.line < 0 || edit.line >= lines.length || edit.character < 0 || edit.character > lines[edit.line].length) {
+        throw new Error(`Edit at ${edit.line}:${edit.character} is outside the document`);
+    }
+
+    const content = lines.join('\n');
+    const offset = lines.slice(0, edit.line).reduce((sum, line) => sum + line.length + 1, 0) + edit.character;
+    const removed = content.substring(offset, offset + (edit.deleteCount ?? 0));
+    const inserted = (edit.text ?? '').replace(/\r\n|\r/g, '\n');
+
+    const removedLines = removed.split('\n').length - 1;
+    return {
+        lines: (content.substring(0, offset) + inserted + content.substring(offset + removed.length)).split('\n'),
+        removedLines,
+        insertedLines: inserted.split('\n').length - 1,
+        end: removedLines === 0
+            ? { line: edit.line, character: edit.character + removed.length }
+            : { line: edit.line + removedLines, character: removed.length - removed.lastIndexOf('\n') - 1 }
+    };
+}
+
+// An issue found while retokenizing after a single edit
+type EditIssue = Omit<IncrementalIssue, 'edit' | 'clearedLine'>;
+
+// Every frame of a rule stack, including what StateStack.equals leaves out (e.g. whether
+// `begin` matched the line break). Equal frames tokenize every following line alike.
+function stateFrames(state: vsctm.StateStack): string {
+    return JSON.stringify(vsctm.diffStateStacksRefEq(vsctm.INITIAL, state).newFrames);
+}
+
+function isSameState(state: vsctm.StateStack, old: vsctm.StateStack): boolean {
+    return state.equals(old) && stateFrames(state) === stateFrames(old);
+}
+
+/**
+ * Retokenizes the edited `lines` from `from` on, until the state after a line below the
+ * edit has `converged` with the state stored in `document` for that line. From there on,
+ * the old tokens and states are kept.
+ */
+function retokenize(
+    engine: TextMateEngine,
+    document: TokenizedDocument,
+    lines: string[],
+    from: number,
+    lastEdited: number,
+    delta: number,
+    converged: (state: vsctm.StateStack, old: vsctm.StateStack) => boolean
+): TokenizedDocument {
+    const next: TokenizedDocument = {
+        lines,
+        tokens: document.tokens.slice(0, from),
+        ruleStacks: document.ruleStacks.slice(0, from)
+    };
+
+    let ruleStack = stateBefore(document, from);
+    for (let i = from; i < lines.length; i++) {
+        if (i > lastEdited && converged(ruleStack, document.ruleStacks[i - 1 - delta])) {
+            for (let old = i - delta; old < document.lines.length; old++) {
+                next.tokens.push(delta === 0 ? document.tokens[old] : document.tokens[old].map(t => ({ ...t, line: old + delta })));
+                next.ruleStacks.push(document.ruleStacks[old]);
+            }
+            break;
+        }
+
+        const result = engine.tokenizeLine(lines[i], i, ruleStack);
+        ruleStack = result.ruleStack;
+        next.tokens.push(result.tokens);
+        next.ruleStacks.push(ruleStack);
+    }
+    return next;
+}
+
+/**
+ * Retokenizes a document after an edit the way VS Code does it: from the first edited
+ * line with the stored rule stack until the state after a line equals the stored state
+ * from before the edit, reusing the old tokens from there on. Every line where the result
+ * differs from how the edited document really tokenizes is reported, as is the first line
+ * whose state should have converged but didn't.
+ *
+ * The reference is a full tokenization, or with `exactReference` the same retokenization
+ * that only stops once every frame of the state is the old one, which is much cheaper.
+ */
+function retokenizeAfterEdit(engine: TextMateEngine, document: TokenizedDocument, edit: IncrementalEdit, exactReference = false): { document: TokenizedDocument; issues: EditIssue[] } {
+    const { lines, removedLines, insertedLines } = applyEdit(document.lines, edit);
+    const delta = insertedLines - removedLines;
+    const lastEdited = edit.line + insertedLines;
+    const full = exactReference
+        ? retokenize(engine, document, lines, edit.line, lastEdited, delta, isSameState)
+        : engine.tokenizeLines(lines);
+    const next = retokenize(engine, document, lines, edit.line, lastEdited, delta, (state, old) => state.equals(old));
+    const issues: EditIssue[] = [];
+
+    for (let i = lastEdited + 1; i < lines.length; i++) {
+        const oldState = document.ruleStacks[i - 1 - delta];
+        if (next.ruleStacks[i - 1].equals(oldState)) break;
+        if (full.ruleStacks[i - 1].equals(oldState)) {
+            issues.push({
+                line: i - 1,
+                kind: 'state',
+                message: 'The rule stack differs from before the edit although a full tokenization ends in the same state, the rest of the document is retokenized'
+            });
+            break;
+        }
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        // Lines both kept from the old document are the same
+        const difference = next.tokens[i] !== full.tokens[i] && compareLineTokens(next.tokens[i], full.tokens[i]);
+        if (difference) {
+            issues.push({ line: i, kind: 'tokens', message: `Incremental tokens differ from a full tokenization: ${difference}` });
+        }
+    }
+
+    return { document: next, issues };
+}
+
+/**
+ * Clears every non-empty line on its own and retokenizes the document incrementally,
+ * see retokenizeAfterEdit. This finds grammars whose rule stacks compare equal although
+ * they tokenize the following lines differently (e.g. `\G` after a `begin` that matched
+ * the end of the line): VS Code stops retokenizing at such a state and keeps stale tokens.
+ * Only the lines up to where the state converges again are retokenized for each line.
+ */
+export function checkRetokenizeLines(engine: TextMateEngine, content: string): IncrementalIssue[] {
+    const lines = content.split(/\r\n|\r|\n/);
+    const document: TokenizedDocument = { lines, ...engine.tokenizeLines(lines) };
+
+    return lines.flatMap((text, line) => text.length === 0 ? [] :
+        retokenizeAfterEdit(engine, document, { line, character: 0, deleteCount: text.length }, true).issues
+            .map(issue => ({ ...issue, clearedLine: line })));
+}
+
+/**
+ * Applies the edits one after another, each retokenized incrementally like in VS Code
+ * (see retokenizeAfterEdit).
+ */
+export function checkEdits(engine: TextMateEngine, content: string, edits: IncrementalEdit[]): IncrementalIssue[] {
+    const initialLines = content.split(/\r\n|\r|\n/);
+    let document: TokenizedDocument = { lines: initialLines, ...engine.tokenizeLines(initialLines) };
+    const issues: IncrementalIssue[] = [];
+
+    edits.forEach((edit, editIndex) => {
+        const result = retokenizeAfterEdit(engine, document, edit);
+        issues.push(...result.issues.map(issue => ({ edit: editIndex, ...issue })));
+        document = result.document;
+    });
+
+    return issues;
+}
@@ -0,0 +1,196 @@
+import * as oniguruma from 'vscode-oniguruma';
+
+export interface GrammarDiagnostic {
+    severity: 'error' | 'warning';
+    file: string;
+    pointer: string; // JSON pointer into the grammar, e.g. /repository/string/begin
+    message: string;
+}
+
+// A grammar lookup for external includes, null if the scope is unknown
+export type ExternalGrammarLookup = (scopeName: string) => any | null;
+
+const CAPTURE_KEYS = ['captures', 'beginCaptures', 'endCaptures', 'whileCaptures'];
+
+function escapePointer(key: string): string {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Counts the capture groups of an Oniguruma pattern: plain `(...)` and named
+ * `(?<name>...)` / `(?'name'...)` groups, skipping escapes and character classes.
+ */
+function countCaptureGroups(pattern: string): number {
+    let groups = 0;
+    let classDepth = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            classDepth++;
+        } else if (char === ']' && classDepth > 0) {
+            classDepth--;
+        } else if (char === '(' && classDepth === 0) {
+            if (pattern[i + 1] !== '?') {
+                groups++;
+            } else if (pattern[i + 2] === "'" || (pattern[i + 2] === '<' && pattern[i + 3] !== '=' && pattern[i + 3] !== '!')) {
+                groups++;
+            }
+        }
+    }
+    return groups;
+}
+
+function compileError(pattern: string): string | null {
+    try {
+        new oniguruma.OnigScanner([pattern]).dispose();
+        return null;
+    } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+    }
+}
+
+/**
+ * Lints a raw TextMate grammar (JSON, YAML or plist, already parsed).
+ * vscode-oniguruma must be initialized, patterns are compiled to check them.
+ *
+ * Errors: unresolved includes, patterns that don't compile, `begin` without `end`/`while`.
+ * Warnings: repository entries nothing includes, captures for groups the pattern doesn't have.
+ */
+export function lintGrammar(grammar: any, file: string, lookupExternal: ExternalGrammarLookup): GrammarDiagnostic[] {
+    const diagnostics: GrammarDiagnostic[] = [];
+    const report = (severity: GrammarDiagnostic['severity'], pointer: string, message: string) => {
+        diagnostics.push({ severity, file, pointer, message });
+    };
+
+    // Repository entries by pointer, to report the ones no include references
+    const usedEntries = new Set<string>();
+    const allEntries: string[] = [];
+
+    const resolveInclude = (include: string, repository: Map<string, string>, pointer: string) => {
+        if (include === '$self' || include === '$base') return;
+
+        if (include.startsWith('#')) {
+            const entry = repository.get(include.substring(1));
+            if (entry) {
+                usedEntries.add(entry);
+            } else {
+                report('error', pointer, `Unresolved include "${include}": no repository entry "${include.substring(1)}"`);
+            }
+            return;
+        }
+
+        const [scopeName, ruleName] = include.split('#');
+        const external = scopeName === grammar.scopeName ? grammar : lookupExternal(scopeName);
+        if (!external) {
+            report('error', pointer, `Unresolved include "${include}": no grammar for scope "${scopeName}" (add it to extraGrammars)`);
+            return;
+        }
+        if (ruleName !== undefined && !external.repository?.[ruleName]) {
+            report('error', pointer, `Unresolved include "${include}": "${scopeName}" has no repository entry "${ruleName}"`);
+        } else if (ruleName !== undefined && external === grammar) {
+            usedEntries.add(`/repository/${escapePointer(ruleName)}`);
+        }
+    };
+
+    const checkPattern = (pattern: unknown, pointer: string, hasBackReferences: boolean) => {
+        if (typeof pattern !== 'string') {
+            report('error', pointer, 'Pattern must be a string');
+            return;
+        }
+        // end/while may refer to begin captures (\1), vscode-textmate substitutes them before compiling
+        const source = hasBackReferences ? pattern.replace(/\\(\d+)/g, 'x') : pattern;
+        const error = compileError(source);
+        if (error) {
+            report('error', pointer, `Invalid regex: ${error}`);
+        }
+    };
+
+    // Captures may apply to several patterns, an index is fine if any of them has the group
+    const checkCaptures = (captures: any, patterns: unknown[], pointer: string) => {
+        const sources = patterns.filter((p): p is string => typeof p === 'string');
+        if (!captures || typeof captures !== 'object' || sources.length === 0) return;
+        const groups = Math.max(...sources.map(countCaptureGroups));
+        for (const key of Object.keys(captures)) {
+            const index = Number(key);
+            if (Number.isInteger(index) && index > groups) {
+                report('warning', `${pointer}/${escapePointer(key)}`, `Capture ${index} does not exist, the pattern has ${groups} group(s)`);
+            }
+        }
+    };
+
+    const walkRule = (rule: any, pointer: string, parentRepository: Map<string, string>) => {
+        if (!rule || typeof rule !== 'object') return;
+
+        // A rule's own repository extends the one it is nested in
+        let repository = parentRepository;
+        if (rule.repository && typeof rule.repository === 'object') {
+            repository = new Map(parentRepository);
+            for (const name of Object.keys(rule.repository)) {
+                const entryPointer = `${pointer}/repository/${escapePointer(name)}`;
+                repository.set(name, entryPointer);
+                allEntries.push(entryPointer);
+            }
+        }
+
+        if (typeof rule.include === 'string') {
+            resolveInclude(rule.include, repository, `${pointer}/include`);
+        }
+
+        if (rule.match !== undefined) checkPattern(rule.match, `${pointer}/match`, false);
+        if (rule.begin !== undefined) {
+            checkPattern(rule.begin, `${pointer}/begin`, false);
+            if (rule.end === undefined && rule.while === undefined) {
+                report('error', `${pointer}/begin`, 'Rule has "begin" but no "end" or "while"');
+            }
+        }
+        if (rule.end !== undefined) checkPattern(rule.end, `${pointer}/end`, true);
+        if (rule.while !== undefined) checkPattern(rule.while, `${pointer}/while`, true);
+
+        // `captures` is used for begin and end when their own captures are missing
+        const capturesPatterns = rule.match !== undefined
+            ? [rule.match]
+            : [rule.beginCaptures ? undefined : rule.begin, rule.endCaptures ? undefined : rule.end];
+        checkCaptures(rule.captures, capturesPatterns, `${pointer}/captures`);
+        checkCaptures(rule.beginCaptures, [rule.begin], `${pointer}/beginCaptures`);
+        checkCaptures(rule.endCaptures, [rule.end], `${pointer}/endCaptures`);
+        checkCaptures(rule.whileCaptures, [rule.while], `${pointer}/whileCaptures`);
+
+        for (const key of CAPTURE_KEYS) {
+            if (!rule[key] || typeof rule[key] !== 'object') continue;
+            for (const [index, capture] of Object.entries(rule[key])) {
+                walkRule(capture, `${pointer}/${key}/${escapePointer(index)}`, repository);
+            }
+        }
+
+        if (Array.isArray(rule.patterns)) {
+            rule.patterns.forEach((pattern: any, i: number) => walkRule(pattern, `${pointer}/patterns/${i}`, repository));
+        }
+
+        if (rule.repository && typeof rule.repository === 'object') {
+            for (const [name, entry] of Object.entries(rule.repository)) {
+                walkRule(entry, `${pointer}/repository/${escapePointer(name)}`, repository);
+            }
+        }
+    };
+
+    walkRule(grammar, '', new Map());
+
+    // Injections of the grammar itself (`"injections": { "L:comment": { ... } }`) see the root repository
+    if (grammar.injections && typeof grammar.injections === 'object') {
+        const rootRepository = new Map(Object.keys(grammar.repository ?? {}).map(name => [name, `/repository/${escapePointer(name)}`]));
+        for (const [selector, rule] of Object.entries(grammar.injections)) {
+            walkRule(rule, `/injections/${escapePointer(selector)}`, rootRepository);
+        }
+    }
+
+    for (const entry of allEntries) {
+        if (!usedEntries.has(entry)) {
+            report('warning', entry, 'Repository entry is never included');
+        }
+    }
+
+    return diagnostics;
+}
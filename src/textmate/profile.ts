@@ -0,0 +1,36 @@
+import type { LineProfile, TokenizeProfile } from './grammar.js';
+
+export interface ProfileReport {
+    file: string;
+    totalTime: number; // Milliseconds
+    timeLimit: number; // Milliseconds per line, 0 for none
+    maxTime: number; // Slowest line, scales the heat gutter
+    maxRuleStackDepth: number;
+    slowestLines: LineProfile[];
+    stoppedEarly: number[]; // 0-based lines that hit the time limit
+    lines: LineProfile[];
+}
+
+/**
+ * Summarizes the profile of one file: the `slowest` slowest lines (slowest first),
+ * the lines that stopped early and the deepest rule stack.
+ */
+export function createProfileReport(file: string, profile: TokenizeProfile, timeLimit: number, slowest: number = 10): ProfileReport {
+    const byTime = [...profile.lines].sort((a, b) => b.time - a.time);
+
+    return {
+        file,
+        totalTime: profile.totalTime,
+        timeLimit,
+        maxTime: byTime[0]?.time ?? 0,
+        maxRuleStackDepth: Math.max(0, ...profile.lines.map(l => l.ruleStackDepth)),
+        slowestLines: byTime.slice(0, slowest),
+        stoppedEarly: profile.lines.filter(l => l.stoppedEarly).map(l => l.line),
+        lines: profile.lines
+    };
+}
+
+// Milliseconds with a precision that still shows fast lines
+export function formatTime(time: number): string {
+    return time >= 10 ? `${time.toFixed(0)} ms` : `${time.toFixed(2)} ms`;
+}
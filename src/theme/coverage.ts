@@ -0,0 +1,88 @@
+import type { RuleProvenance } from './resolver.js';
+
+/**
+ * Hit counters for theme rules, used to find rules that never style anything.
+ *
+ * - `used`: supplied an attribute (foreground, fontStyle or a font style flag) for at least one token
+ * - `shadowed`: matched tokens, but a more specific (or later) rule always won the attributes it sets
+ * - `unmatched`: never matched a token
+ */
+
+export type CoverageStatus = 'used' | 'shadowed' | 'unmatched';
+
+// A rule that won over another one, with the number of tokens it did so for
+export interface ShadowingRule extends RuleProvenance {
+    count: number;
+}
+
+export interface RuleCoverage extends RuleProvenance {
+    status: CoverageStatus;
+    matched: number; // Tokens the selector matched
+    won: number; // Tokens the rule supplied at least one attribute for
+    shadowedBy: ShadowingRule[]; // Rules that won an attribute this rule sets while it matched, most frequent first
+}
+
+export interface ThemeCoverageReport {
+    tokenColors: RuleCoverage[];
+    semanticTokenColors: RuleCoverage[];
+}
+
+// A matching rule and the attributes it sets
+export interface CoverageMatch {
+    rule: object;
+    attributes: string[];
+}
+
+interface Counter {
+    provenance: RuleProvenance;
+    matched: number;
+    won: number;
+    shadowedBy: Map<object, number>;
+}
+
+export class CoverageTracker {
+    // Keyed by the parsed rule (or selector) object, in theme order
+    private counters: Map<object, Counter> = new Map();
+
+    register(rule: object, provenance: RuleProvenance) {
+        this.counters.set(rule, { provenance, matched: 0, won: 0, shadowedBy: new Map() });
+    }
+
+    /**
+     * Records the resolution of one token: every rule that matched it and the
+     * rule that won each attribute.
+     */
+    record(matches: CoverageMatch[], winners: Map<string, object>) {
+        const winningRules = new Set(winners.values());
+
+        for (const { rule, attributes } of matches) {
+            const counter = this.counters.get(rule);
+            if (!counter) continue;
+            counter.matched++;
+
+            if (winningRules.has(rule)) {
+                counter.won++;
+                continue;
+            }
+
+            const shadowing = new Set(attributes.map(attr => winners.get(attr)).filter(w => w !== undefined));
+            for (const winner of shadowing) {
+                counter.shadowedBy.set(winner, (counter.shadowedBy.get(winner) ?? 0) + 1);
+            }
+        }
+    }
+
+    report(section: RuleProvenance['section']): RuleCoverage[] {
+        return [...this.counters.values()]
+            .filter(counter => counter.provenance.section === section)
+            .map(counter => ({
+                ...counter.provenance,
+                status: counter.won > 0 ? 'used' as const : counter.matched > 0 ? 'shadowed' as const : 'unmatched' as const,
+                matched: counter.matched,
+                won: counter.won,
+                shadowedBy: [...counter.shadowedBy.entries()]
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([winner, count]) => ({ ...this.counters.get(winner)!.provenance, count }))
+            }));
+    }
+}
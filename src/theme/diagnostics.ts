@@ -0,0 +1,98 @@
+import type { RuleProvenance, VSCodeTheme } from './resolver.js';
+import { parseScopeSelectors } from './selector.js';
+
+export interface ThemeDiagnostic extends Partial<RuleProvenance> {
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+const KNOWN_FONT_STYLES = ['italic', 'bold', 'underline', 'strikethrough'];
+const SEMANTIC_FLAGS = ['bold', 'italic', 'underline', 'strikethrough'];
+
+// #RGB, #RGBA, #RRGGBB or #RRGGBBAA, the formats VS Code accepts in themes
+function isValidColor(value: unknown): boolean {
+    return typeof value === 'string' && /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+}
+
+function unknownFontStyles(fontStyle: string): string[] {
+    return fontStyle.split(/\s+/).filter(word => word !== '' && !KNOWN_FONT_STYLES.includes(word));
+}
+
+/**
+ * Checks the rules of a single theme file (not its include chain):
+ * malformed tokenColors rules, invalid colors, unknown fontStyle values and
+ * selectors that a later rule of the same file overrides for the same attribute.
+ */
+export function validateTheme(theme: VSCodeTheme, themeFile: string): ThemeDiagnostic[] {
+    const diagnostics: ThemeDiagnostic[] = [];
+
+    for (const [key, value] of Object.entries(theme.colors ?? {})) {
+        if (!isValidColor(value)) {
+            diagnostics.push({ severity: 'warning', message: `Invalid color "${value}"`, selector: key, section: 'colors', themeFile });
+        }
+    }
+
+    // selector -> the last rule of this file that set each attribute for it
+    const seen = new Map<string, { foreground?: number; fontStyle?: number }>();
+
+    (theme.tokenColors ?? []).forEach((rule, ruleIndex) => {
+        const scope = Array.isArray(rule?.scope) ? rule.scope.join(', ') : rule?.scope;
+        const at = { section: 'tokenColors' as const, ruleIndex, themeFile, selector: scope };
+
+        if (!rule || typeof rule.settings !== 'object' || rule.settings === null) {
+            diagnostics.push({ severity: 'warning', message: "Rule has no 'settings'", ...at });
+            return;
+        }
+
+        const { foreground, fontStyle } = rule.settings;
+        if (foreground !== undefined && !isValidColor(foreground)) {
+            diagnostics.push({ severity: 'warning', message: `Invalid foreground color "${foreground}"`, ...at });
+        }
+        if (fontStyle !== undefined) {
+            const unknown = typeof fontStyle === 'string' ? unknownFontStyles(fontStyle) : [String(fontStyle)];
+            if (unknown.length > 0) {
+                diagnostics.push({ severity: 'warning', message: `Unknown fontStyle value "${unknown.join(' ')}"`, ...at });
+            }
+        }
+
+        if (!rule.scope) return;
+        for (const selector of parseScopeSelectors(rule.scope)) {
+            const previous = seen.get(selector.text) ?? {};
+            for (const attr of ['foreground', 'fontStyle'] as const) {
+                if (rule.settings[attr] === undefined) continue;
+                if (previous[attr] !== undefined) {
+                    diagnostics.push({
+                        severity: 'warning',
+                        message: `Duplicate selector, overrides the ${attr} of tokenColors[${previous[attr]}]`,
+                        ...at,
+                        selector: selector.text
+                    });
+                }
+                previous[attr] = ruleIndex;
+            }
+            seen.set(selector.text, previous);
+        }
+    });
+
+    Object.entries(theme.semanticTokenColors ?? {}).forEach(([key, value], ruleIndex) => {
+        const at = { section: 'semanticTokenColors' as const, ruleIndex, selector: key, themeFile };
+        const foreground = typeof value === 'string' ? value : value?.foreground;
+
+        if (foreground !== undefined && !isValidColor(foreground)) {
+            diagnostics.push({ severity: 'warning', message: `Invalid foreground color "${foreground}"`, ...at });
+        }
+        if (typeof value === 'object' && value !== null) {
+            if (typeof value.fontStyle === 'string' && unknownFontStyles(value.fontStyle).length > 0) {
+                diagnostics.push({ severity: 'warning', message: `Unknown fontStyle value "${unknownFontStyles(value.fontStyle).join(' ')}"`, ...at });
+            }
+            for (const flag of SEMANTIC_FLAGS) {
+                const flagValue = value[flag as keyof typeof value];
+                if (flagValue !== undefined && typeof flagValue !== 'boolean') {
+                    diagnostics.push({ severity: 'warning', message: `"${flag}" must be true or false`, ...at });
+                }
+            }
+        }
+    });
+
+    return diagnostics;
+}
@@ -1,202 +1,642 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import JSON5 from 'json5';
-import chalk from 'chalk';
 
-import { findVsCodeThemeDir } from '../utils/vscode.js';
+import { findDefaultThemeDir, ThemeSource } from '../utils/vscode.js';
+import { ScopeSelector, SelectorScore, parseScopeSelectors, matchSelector, compareScores } from './selector.js';
+import { SemanticSelector, parseSemanticSelector, matchSemanticSelector } from './semantic.js';
+import { isTmTheme, parseTmTheme } from './tmtheme.js';
+import { CoverageTracker, CoverageMatch, ThemeCoverageReport } from './coverage.js';
+import { ThemeDiagnostic, validateTheme } from './diagnostics.js';
 
 export interface ThemeColor {
     foreground?: string;
-    fontStyle?: string; // italic, bold, underline
+    fontStyle?: string; // italic, bold, underline, strikethrough. "" explicitly resets inherited styles
 }
 
-interface ThemeRule {
+export interface ThemeRule {
     scope?: string | string[];
     settings: ThemeColor;
 }
 
-interface VSCodeTheme {
+interface ParsedThemeRule {
+    selectors: ScopeSelector[];
+    settings: ThemeColor;
+    order: number; // Position across the whole include chain, base theme first
+    ruleIndex: number; // Position in the tokenColors array of its theme file
+    themeFile: string;
+}
+
+// semanticTokenColors values may also set the font style flags individually
+interface SemanticTokenStyle extends ThemeColor {
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strikethrough?: boolean;
+}
+
+interface ParsedSemanticRule {
+    selector: SemanticSelector;
+    ruleIndex: number; // Position in the semanticTokenColors object of its theme file
+    themeFile: string;
+    foreground?: string;
+    fontStyle: Record<string, boolean>; // Only the flags the rule sets
+}
+
+export interface VSCodeTheme {
     name?: string;
     include?: string;
     type?: string; // dark | light
     colors?: Record<string, string>; // UI colors
     tokenColors?: ThemeRule[];
-    semanticTokenColors?: Record<string, string | ThemeColor>;
+    semanticHighlighting?: boolean;
+    semanticTokenColors?: Record<string, string | SemanticTokenStyle>;
+}
+
+// A theme rule and where it is defined
+export interface RuleProvenance {
+    selector: string; // tokenColors selector, semanticTokenColors key or colors key
+    section: 'tokenColors' | 'semanticTokenColors' | 'colors';
+    ruleIndex?: number; // Position in the section of its theme file, not set for colors
+    themeFile?: string; // Theme file in the include chain (relative to the main theme), not set for built-in defaults
+}
+
+// The rule that supplied a single style attribute
+export interface AttributeSource extends RuleProvenance {
+    scopeIndex: number; // Index in the input scopes array the selector matched
 }
 
 export interface ThemeMatch {
     color: ThemeColor;
     matchedScopeIndex: number; // Index in the input scopes array that triggered the match. -1 if default.
+    sources: {
+        foreground?: AttributeSource;
+        fontStyle?: AttributeSource;
+    };
+}
+
+export interface EditorColors {
+    foreground: string;
+    background: string;
+}
+
+// VS Code's built-in Dark+ / Light+ values for the colors we read, used when the
+// theme's `colors` block (including its include chain) leaves them unset.
+const DEFAULT_COLORS: Record<'dark' | 'light', Record<string, string>> = {
+    dark: {
+        "editor.foreground": "#D4D4D4",
+        "editor.background": "#1E1E1E",
+        "editorBracketHighlight.foreground1": "#FFD700",
+        "editorBracketHighlight.foreground2": "#DA70D6",
+        "editorBracketHighlight.foreground3": "#179FFF",
+        "editorBracketHighlight.unexpectedBracket.foreground": "#FF1212CC"
+    },
+    light: {
+        "editor.foreground": "#000000",
+        "editor.background": "#FFFFFF",
+        "editorBracketHighlight.foreground1": "#0431FA",
+        "editorBracketHighlight.foreground2": "#319331",
+        "editorBracketHighlight.foreground3": "#7B3814",
+        "editorBracketHighlight.unexpectedBracket.foreground": "#FF1212CC"
+    }
+};
+
+function isTransparent(color: string): boolean {
+    const hex = color.replace('#', '');
+    return (hex.length === 8 && hex.endsWith('00')) || (hex.length === 4 && hex.endsWith('0'));
+}
+
+function isDarkColor(color: string): boolean {
+    let hex = color.replace('#', '');
+    if (hex.length === 3 || hex.length === 4) hex = hex.split('').map(c => c + c).join('');
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.substring(i, i + 2), 16));
+    if ([r, g, b].some(isNaN)) return true;
+    // Relative luminance approximation, good enough to tell light from dark backgrounds
+    return (0.299 * r + 0.587 * g + 0.114 * b) / 255 < 0.5;
+}
+
+export interface SemanticMatch {
+    color: ThemeColor;
+    // The semanticTokenColors rules that supplied each attribute
+    sources: {
+        foreground?: RuleProvenance;
+        fontStyle?: RuleProvenance;
+    };
+}
+
+// A lookup that styled (part of) a token, see recordCoverage
+export type ThemeLookup =
+    | { scopes: string[] }
+    | { semantic: { type: string; modifiers: string[]; language?: string } };
+
+// A bracket pair color and the colors key it comes from
+export interface BracketColor {
+    color: string;
+    source: RuleProvenance;
+}
+
+const FONT_STYLES = ['italic', 'bold', 'underline', 'strikethrough'];
+
+/**
+ * Normalizes a fontStyle setting like VS Code does: any string sets the attribute
+ * (so "" resets inherited styles), unknown words are dropped.
+ */
+function normalizeFontStyle(fontStyle: unknown): string | undefined {
+    if (typeof fontStyle !== 'string') return undefined;
+    const words = fontStyle.split(/\s+/);
+    return FONT_STYLES.filter(style => words.includes(style)).join(' ');
+}
+
+// A cached resolution, with what the coverage counters need to record it again
+interface CachedMatch {
+    match: ThemeMatch;
+    matches: CoverageMatch[];
+    winners: Map<string, object>;
 }
 
 export class ThemeResolver {
-    private rules: ThemeRule[] = [];
-    private semanticRules: Map<string, ThemeColor> = new Map();
+    private rules: ParsedThemeRule[] = [];
+    private matchCache: Map<string, CachedMatch> = new Map();
+    private coverage = new CoverageTracker();
+    private semanticRules: ParsedSemanticRule[] = [];
+    private semanticHighlighting = true;
+    private colors: Record<string, string> = {};
+    private colorFiles: Record<string, string> = {}; // colors key -> theme file that set it
+    private rootThemeDir: string | null = null;
+    private type: string | undefined;
+    private diagnostics: ThemeDiagnostic[] = [];
 
-    constructor(themePath: string) {
-        this.loadTheme(themePath);
+    /**
+     * Throws if the theme cannot be loaded. With `collectErrors`, broken includes
+     * are reported through getDiagnostics() instead and the rest of the theme is loaded.
+     */
+    constructor(themePath: string, private themeSource: ThemeSource = 'auto', private collectErrors = false) {
+        this.loadTheme(themePath, []);
     }
 
-    private loadTheme(themePath: string) {
+    /**
+     * Loads a theme and collects all diagnostics instead of throwing, for linting themes.
+     */
+    static check(themePath: string, themeSource: ThemeSource = 'auto'): ThemeDiagnostic[] {
         try {
-            let finalPath = themePath;
-
-            // Map common names to filenames in VS Code defaults
-            const nameMap: Record<string, string> = {
-                "Dark Modern": "dark_modern.json",
-                "Default Dark Modern": "dark_modern.json",
-                "Dark+": "dark_plus.json",
-                "Default Dark+": "dark_plus.json",
-                "Dark (Visual Studio)": "dark_vs.json",
-                "Light Modern": "light_modern.json",
-                "Default Light Modern": "light_modern.json",
-                "Light+": "light_plus.json",
-                "Default Light+": "light_plus.json",
-                "Light (Visual Studio)": "light_vs.json"
-            };
-
-            if (nameMap[themePath]) {
-                 const vsCodeDir = findVsCodeThemeDir();
-                 if (!vsCodeDir) {
-                     throw new Error(`Could not find VS Code installation to load default theme "${themePath}".\nPlease install VS Code or set the VSCODE_PATH environment variable.`);
-                 }
-                 finalPath = path.join(vsCodeDir, nameMap[themePath]);
-            } else if (!fs.existsSync(themePath) && !path.isAbsolute(themePath)) {
-                 // Try looking in defaults just in case user passed "dark_modern" without extension
-                 // We check VS Code dir here too
-                 const vsCodeDir = findVsCodeThemeDir();
-                 if (vsCodeDir) {
-                    const potentialPath = path.join(vsCodeDir, themePath + '.json');
-                    if (fs.existsSync(potentialPath)) {
-                        finalPath = potentialPath;
-                    }
-                 }
-            }
+            return new ThemeResolver(themePath, themeSource, true).getDiagnostics();
+        } catch (e) {
+            return [{ severity: 'error', message: e instanceof Error ? e.message : String(e) }];
+        }
+    }
+
+    /**
+     * Problems found while loading the theme and its include chain, see validateTheme.
+     */
+    getDiagnostics(): ThemeDiagnostic[] {
+        return this.diagnostics;
+    }
+
+    private report(diagnostic: ThemeDiagnostic) {
+        if (diagnostic.severity === 'error' && !this.collectErrors) {
+            throw new Error(diagnostic.message);
+        }
+        this.diagnostics.push(diagnostic);
+    }
+
+    /**
+     * Loads a theme file (JSON/JSON5 or tmTheme plist, or a default theme name) and its include chain.
+     * Throws if the theme cannot be found or parsed. Broken includes and include cycles are
+     * reported as errors (see report).
+     * @param includeChain Absolute paths of the themes that include this one, outermost first
+     */
+    private loadTheme(themePath: string, includeChain: string[]) {
+        let finalPath = themePath;
+
+        // Map common names to filenames in VS Code defaults
+        const nameMap: Record<string, string> = {
+            "Dark Modern": "dark_modern.json",
+            "Default Dark Modern": "dark_modern.json",
+            "Dark+": "dark_plus.json",
+            "Default Dark+": "dark_plus.json",
+            "Dark (Visual Studio)": "dark_vs.json",
+            "Light Modern": "light_modern.json",
+            "Default Light Modern": "light_modern.json",
+            "Light+": "light_plus.json",
+            "Default Light+": "light_plus.json",
+            "Light (Visual Studio)": "light_vs.json",
+            "Dark High Contrast": "hc_black.json",
+            "Default High Contrast": "hc_black.json",
+            "Light High Contrast": "hc_light.json",
+            "Default High Contrast Light": "hc_light.json",
+            "Dark 2026": "2026-dark.json",
+            "Light 2026": "2026-light.json"
+        };
+
+        if (nameMap[themePath]) {
+             const themeDir = findDefaultThemeDir(this.themeSource);
+             if (!themeDir) {
+                 throw new Error(`Could not find VS Code installation to load default theme "${themePath}".\nPlease install VS Code, set the VSCODE_PATH environment variable or use the bundled themes ("themeSource": "bundled").`);
+             }
+             finalPath = path.join(themeDir, nameMap[themePath]);
+        } else if (!fs.existsSync(themePath) && !path.isAbsolute(themePath)) {
+             // Try looking in defaults just in case user passed "dark_modern" without extension
+             // We check the default theme dir (installed VS Code or bundled) here too
+             const themeDir = findDefaultThemeDir(this.themeSource);
+             if (themeDir) {
+                const potentialPath = path.join(themeDir, themePath + '.json');
+                if (fs.existsSync(potentialPath)) {
+                    finalPath = potentialPath;
+                }
+             }
+        }
 
-            console.log(chalk.blue(`Loading theme from: ${finalPath}`));
-
-            const content = fs.readFileSync(finalPath, 'utf8');
-            const theme = JSON5.parse(content) as VSCodeTheme;
-            
-            // Handle inheritance (include property)
-            // Load base theme first so that current theme can override
-            if (theme.include) {
-                // Resolve include relative to the current theme file location (finalPath)
-                const baseThemePath = path.resolve(path.dirname(finalPath), theme.include);
-                // Simple cycle detection could be added here if needed, but keeping it simple for now
-                this.loadTheme(baseThemePath);
+        // Theme files are reported relative to the main theme, so provenance is the same on every machine
+        if (this.rootThemeDir === null) {
+            this.rootThemeDir = path.dirname(finalPath);
+        }
+        const themeFile = path.relative(this.rootThemeDir, finalPath).split(path.sep).join('/');
+
+        if (!fs.existsSync(finalPath)) {
+            throw new Error(`Theme file not found: ${finalPath}`);
+        }
+
+        const content = fs.readFileSync(finalPath, 'utf8');
+        let theme: VSCodeTheme;
+        try {
+            theme = isTmTheme(finalPath, content)
+                ? parseTmTheme(content)
+                : JSON5.parse(content) as VSCodeTheme;
+        } catch (e) {
+            throw new Error(`Failed to parse theme ${finalPath}: ${e instanceof Error ? e.message : e}`);
+        }
+        
+        for (const diagnostic of validateTheme(theme, themeFile)) {
+            this.report(diagnostic);
+        }
+
+        // Handle inheritance (include property)
+        // Load base theme first so that current theme can override
+        if (theme.include) {
+            // Resolve include relative to the current theme file location (finalPath)
+            const baseThemePath = path.resolve(path.dirname(finalPath), theme.include);
+            const chain = [...includeChain, path.resolve(finalPath)];
+
+            if (chain.includes(baseThemePath)) {
+                const cycle = [...chain.slice(chain.indexOf(baseThemePath)), baseThemePath]
+                    .map(p => path.relative(this.rootThemeDir!, p).split(path.sep).join('/'));
+                this.report({ severity: 'error', message: `Include cycle: ${cycle.join(' -> ')}`, themeFile });
+            } else {
+                try {
+                    this.loadTheme(baseThemePath, chain);
+                } catch (e) {
+                    this.report({ severity: 'error', message: e instanceof Error ? e.message : String(e), themeFile });
+                }
             }
+        }
 
-            if (theme.tokenColors) {
-                // Append user rules (they override defaults due to order if specificity is same, 
-                // but we strictly rely on our match logic which should respect order)
-                this.rules.push(...theme.tokenColors);
+        // Child themes override colors and type of their base theme
+        if (theme.colors) {
+            Object.assign(this.colors, theme.colors);
+            for (const key of Object.keys(theme.colors)) {
+                this.colorFiles[key] = themeFile;
             }
+        }
+        if (theme.type) {
+            this.type = theme.type;
+        }
 
-            if (theme.semanticTokenColors) {
-                for (const [key, value] of Object.entries(theme.semanticTokenColors)) {
-                    const settings = typeof value === 'string' 
-                        ? { foreground: value } 
-                        : value;
-                    this.semanticRules.set(key, settings);
+        if (theme.tokenColors) {
+            // Append user rules (they override base rules on equal specificity because
+            // compareScores prefers the later rule)
+            theme.tokenColors.forEach((rule, ruleIndex) => {
+                if (!rule.scope || !rule.settings) return;
+                const parsed: ParsedThemeRule = {
+                    selectors: parseScopeSelectors(rule.scope),
+                    settings: {
+                        foreground: typeof rule.settings.foreground === 'string' ? rule.settings.foreground : undefined,
+                        fontStyle: normalizeFontStyle(rule.settings.fontStyle)
+                    },
+                    order: this.rules.length,
+                    ruleIndex,
+                    themeFile
+                };
+                this.rules.push(parsed);
+
+                // Coverage is tracked per selector, rules that set neither attribute can't style a token
+                if (parsed.settings.foreground !== undefined || parsed.settings.fontStyle !== undefined) {
+                    for (const selector of parsed.selectors) {
+                        this.coverage.register(selector, { selector: selector.text, section: 'tokenColors', ruleIndex, themeFile });
+                    }
                 }
+            });
+        }
+
+        if (theme.semanticHighlighting !== undefined) {
+            this.semanticHighlighting = theme.semanticHighlighting;
+        }
+
+        if (theme.semanticTokenColors) {
+            Object.entries(theme.semanticTokenColors).forEach(([key, value], ruleIndex) => {
+                const rule = this.parseSemanticRule(key, value, ruleIndex, themeFile);
+                this.semanticRules.push(rule);
+                this.coverage.register(rule, { selector: key, section: 'semanticTokenColors', ruleIndex, themeFile });
+            });
+        }
+    }
+
+    /**
+     * Whether the theme is light or dark. Uses the theme's `type` if it has one
+     * (`light`, `vs`, `hcLight`, ...), otherwise the brightness of `editor.background`.
+     */
+    getThemeType(): 'dark' | 'light' {
+        if (this.type) {
+            const type = this.type.toLowerCase();
+            return type === 'vs' || type.includes('light') ? 'light' : 'dark';
+        }
+        const background = this.colors["editor.background"];
+        if (background) {
+            return isDarkColor(background) ? 'dark' : 'light';
+        }
+        return 'dark';
+    }
+
+    /**
+     * Looks up a workbench color from the theme's `colors` block, falling back to
+     * VS Code's default for the theme type.
+     */
+    getColor(key: string): string | undefined {
+        return this.colors[key] ?? DEFAULT_COLORS[this.getThemeType()][key];
+    }
+
+    getEditorColors(): EditorColors {
+        return {
+            foreground: this.getColor("editor.foreground")!,
+            background: this.getColor("editor.background")!
+        };
+    }
+
+    /**
+     * The bracket pair colors by nesting level (editorBracketHighlight.foreground1-6).
+     * Like VS Code, transparent entries are skipped, which is how the default themes
+     * end up with three levels.
+     */
+    getBracketColors(): BracketColor[] {
+        const colors: BracketColor[] = [];
+        for (let i = 1; i <= 6; i++) {
+            const key = `editorBracketHighlight.foreground${i}`;
+            const color = this.getColor(key);
+            if (color && !isTransparent(color)) {
+                colors.push({ color, source: this.getColorSource(key) });
             }
-        } catch (e) {
-            console.error(chalk.red(`Failed to load theme from ${themePath}:`), e);
         }
+        return colors;
     }
 
-    getBracketColors(): string[] {
-        // VS Code Default Dark+ Bracket Colors
-        // These are the defaults if the theme doesn't override editorBracketHighlight.foreground*
-        // We could look into this.semanticRules or this.rules, but usually these are in 'colors' (workbench colors)
-        // which we parse but don't fully utilize yet.
-        
-        // TODO: specific check in this.rules/colors for overrides
-        return ["#FFD700", "#DA70D6", "#179FFF"];
+    getUnexpectedBracketColor(): BracketColor {
+        const key = "editorBracketHighlight.unexpectedBracket.foreground";
+        return { color: this.getColor(key)!, source: this.getColorSource(key) };
+    }
+
+    private getColorSource(key: string): RuleProvenance {
+        return { selector: key, section: 'colors', themeFile: this.colorFiles[key] };
+    }
+
+    private parseSemanticRule(key: string, value: string | SemanticTokenStyle, ruleIndex: number, themeFile: string): ParsedSemanticRule {
+        const rule: ParsedSemanticRule = { selector: parseSemanticSelector(key), ruleIndex, themeFile, fontStyle: {} };
+        if (typeof value === 'string') {
+            rule.foreground = value;
+            return rule;
+        }
+
+        rule.foreground = typeof value.foreground === 'string' ? value.foreground : undefined;
+
+        // fontStyle sets every flag, the individual flags override it
+        const fontStyle = normalizeFontStyle(value.fontStyle);
+        if (fontStyle !== undefined) {
+            for (const style of FONT_STYLES) {
+                rule.fontStyle[style] = fontStyle.split(' ').includes(style);
+            }
+        }
+        for (const style of FONT_STYLES) {
+            const flag = value[style as keyof SemanticTokenStyle];
+            if (typeof flag === 'boolean') {
+                rule.fontStyle[style] = flag;
+            }
+        }
+        return rule;
+    }
+
+    /**
+     * Whether the theme allows semantic highlighting (`"semanticHighlighting": false` turns it off).
+     */
+    isSemanticHighlightingEnabled(): boolean {
+        return this.semanticHighlighting;
     }
 
     /**
      * Resolve a semantic token to a color.
-     * Follows VS Code's precedence:
-     * 1. precise type.modifier
-     * 2. type
-     * 3. wildcard *.modifier
+     * Follows VS Code's selector scoring (see matchSemanticSelector): every
+     * semanticTokenColors rule is scored against the token, and foreground and each
+     * font style flag come from the highest scoring rule that sets them. On equal
+     * scores the later rule wins.
+     * Counts as a token for the coverage report like resolve().
      */
-    resolveSemantic(tokenType: string, modifiers: string[]): ThemeColor | null {
-        // 1. Try "type.modifier" (taking the first matching modifier for simplicity, 
-        // ideally should match all combinations but usually one dominant modifier is styled)
-        // VS Code actually scores them. We'll iterate all modifiers.
-        for (const mod of modifiers) {
-            const key = `${tokenType}.${mod}`;
-            if (this.semanticRules.has(key)) return this.semanticRules.get(key)!;
+    resolveSemantic(tokenType: string, modifiers: string[], language?: string, trackCoverage = true): SemanticMatch | null {
+        const resolved = this.computeSemanticMatch(tokenType, modifiers, language);
+        if (trackCoverage) {
+            this.coverage.record(resolved.matches, resolved.winners);
         }
+        return resolved.match;
+    }
+
+    private computeSemanticMatch(tokenType: string, modifiers: string[], language?: string): { match: SemanticMatch | null; matches: CoverageMatch[]; winners: Map<string, object> } {
+        let foreground: { score: number; value: string; rule: ParsedSemanticRule } | null = null;
+        const flags = new Map<string, { score: number; value: boolean; rule: ParsedSemanticRule }>();
+        const matches: CoverageMatch[] = [];
+
+        for (const rule of this.semanticRules) {
+            const score = matchSemanticSelector(rule.selector, tokenType, modifiers, language);
+            if (score < 0) continue;
+
+            const attributes = Object.keys(rule.fontStyle);
+            if (rule.foreground !== undefined) attributes.push('foreground');
+            matches.push({ rule, attributes });
 
-        // 2. Try "type"
-        if (this.semanticRules.has(tokenType)) {
-            return this.semanticRules.get(tokenType)!;
+            if (rule.foreground !== undefined && (!foreground || score >= foreground.score)) {
+                foreground = { score, value: rule.foreground, rule };
+            }
+            for (const [style, value] of Object.entries(rule.fontStyle)) {
+                const current = flags.get(style);
+                if (!current || score >= current.score) {
+                    flags.set(style, { score, value, rule });
+                }
+            }
         }
 
-        // 3. Try "*.modifier"
-        for (const mod of modifiers) {
-            const key = `*.${mod}`;
-            if (this.semanticRules.has(key)) return this.semanticRules.get(key)!;
+        const winners = new Map<string, object>([...flags].map(([style, flag]) => [style, flag.rule]));
+        if (foreground) winners.set('foreground', foreground.rule);
+
+        if (!foreground && flags.size === 0) return { match: null, matches, winners };
+
+        // The fontStyle source is the best scoring rule among the flags
+        let fontStyleRule: ParsedSemanticRule | undefined;
+        let fontStyleScore = -1;
+        for (const flag of flags.values()) {
+            if (flag.score >= fontStyleScore) {
+                fontStyleScore = flag.score;
+                fontStyleRule = flag.rule;
+            }
         }
 
-        return null;
+        // The whole fontStyle of a token styled over other lookups comes from this rule, see recordCoverage
+        if (fontStyleRule) winners.set('fontStyle', fontStyleRule);
+
+        const toProvenance = (rule: ParsedSemanticRule | undefined): RuleProvenance | undefined => rule
+            ? { selector: rule.selector.text, section: 'semanticTokenColors', ruleIndex: rule.ruleIndex, themeFile: rule.themeFile }
+            : undefined;
+
+        const match: SemanticMatch = {
+            color: {
+                foreground: foreground?.value,
+                fontStyle: flags.size > 0
+                    ? FONT_STYLES.filter(style => flags.get(style)?.value).join(' ')
+                    : undefined
+            },
+            sources: {
+                foreground: toProvenance(foreground?.rule),
+                fontStyle: toProvenance(fontStyleRule)
+            }
+        };
+        return { match, matches, winners };
     }
 
     /**
-     * Matches a scope stack against the theme rules.
+     * Matches a scope stack (root first, leaf last) against the theme rules.
      * Returns the resolved color settings.
      * 
      * VS Code Logic:
-     * 1. Match against each scope in the stack (from specific to general).
-     * 2. Find the rule with the highest "specificity".
-     * 3. Specificity is determined by how well the rule matches the scope.
-     * 
-     * Simplified implementation:
-     * We iterate the rules. For each rule, we check if it matches the current scope.
-     * We track the "best" match.
+     * 1. Every selector of every rule is matched against the whole stack, so parent
+     *    chains (`meta.function string`), child combinators and exclusions apply.
+     * 2. A match on a deeper scope wins over a match on one of its parents.
+     * 3. On the same scope, the more specific selector wins (see compareScores),
+     *    and on a full tie the rule that comes later in the theme wins.
+     * 4. foreground and fontStyle are resolved independently: each attribute comes
+     *    from the best matching rule that sets it, so an italic-only rule combines
+     *    with a color from another rule.
+     *
+     * Every call counts as a token for the coverage report (see getCoverage), pass
+     * `trackCoverage = false` for lookups that don't style a token.
      */
-    resolve(scopes: string[]): ThemeMatch {
-        // Iterate backwards through the scope stack (from leaf to root)
-        // Find the first scope that matches a rule.
-        
-        for (let i = scopes.length - 1; i >= 0; i--) {
-            const scope = scopes[i];
-            
-            let bestMatchForScope: ThemeColor | null = null;
-            let bestScoreForScope = -1;
-
-            for (const rule of this.rules) {
-                if (!rule.scope) continue;
-                
-                const ruleScopes = Array.isArray(rule.scope) ? rule.scope : [rule.scope];
-                
-                for (const selector of ruleScopes) {
-                    // Check if targetScope starts with selector
-                    // e.g. target="variable.parameter.ts", selector="variable" -> Match
-                    if (scope.startsWith(selector)) {
-                        // Check strict prefix boundary
-                        if (scope.length === selector.length || scope[selector.length] === '.') {
-                            const score = selector.length;
-                            if (score >= bestScoreForScope) {
-                                bestScoreForScope = score;
-                                bestMatchForScope = rule.settings;
-                            }
-                        }
-                    }
-                }
+    resolve(scopes: string[], trackCoverage = true): ThemeMatch {
+        const cached = this.cachedMatch(scopes);
+        if (trackCoverage) {
+            this.coverage.record(cached.matches, cached.winners);
+        }
+        return cached.match;
+    }
+
+    /**
+     * Counts one token for the coverage report whose attributes come from several
+     * lookups, in the order they are tried, e.g. a semantic token: its semanticTokenColors
+     * rules, then a standard fallback scope, then its TextMate scopes. Each attribute is
+     * won by the first lookup that sets it, the rules of later lookups that set it too are
+     * shadowed by that winner. Resolve the lookups with `trackCoverage = false` before.
+     */
+    recordCoverage(lookups: ThemeLookup[]) {
+        const matches = new Map<object, CoverageMatch>();
+        const winners = new Map<string, object>();
+
+        for (const lookup of lookups) {
+            const resolved = 'scopes' in lookup
+                ? this.cachedMatch(lookup.scopes)
+                : this.computeSemanticMatch(lookup.semantic.type, lookup.semantic.modifiers, lookup.semantic.language);
+
+            // A rule matching in several lookups still matched a single token
+            for (const match of resolved.matches) {
+                const known = matches.get(match.rule);
+                matches.set(match.rule, known
+                    ? { rule: match.rule, attributes: [...new Set([...known.attributes, ...match.attributes])] }
+                    : match);
+            }
+            for (const [attribute, rule] of resolved.winners) {
+                if (!winners.has(attribute)) winners.set(attribute, rule);
             }
+        }
+
+        this.coverage.record([...matches.values()], winners);
+    }
+
+    private cachedMatch(scopes: string[]): CachedMatch {
+        const cacheKey = scopes.join('\n');
+        let cached = this.matchCache.get(cacheKey);
+        if (!cached) {
+            cached = this.computeMatch(scopes);
+            this.matchCache.set(cacheKey, cached);
+        }
+        return cached;
+    }
+
+    private computeMatch(scopes: string[]): CachedMatch {
+        type Best = { score: SelectorScore; value: string; selector: ScopeSelector; rule: ParsedThemeRule };
+        let foreground: Best | null = null;
+        let fontStyle: Best | null = null;
+        const matches: CoverageMatch[] = [];
 
-            // If we found a match for this scope, return it.
-            // Child scopes override parent scopes.
-            if (bestMatchForScope) {
-                return { color: bestMatchForScope, matchedScopeIndex: i };
+        for (const rule of this.rules) {
+            const { settings } = rule;
+            if (settings.foreground === undefined && settings.fontStyle === undefined) continue;
+
+            for (const selector of rule.selectors) {
+                const score = matchSelector(selector, scopes, rule.order);
+                if (!score) continue;
+
+                matches.push({
+                    rule: selector,
+                    attributes: (['foreground', 'fontStyle'] as const).filter(attr => settings[attr] !== undefined)
+                });
+
+                if (settings.foreground !== undefined && (!foreground || compareScores(score, foreground.score) > 0)) {
+                    foreground = { score, value: settings.foreground, selector, rule };
+                }
+                if (settings.fontStyle !== undefined && (!fontStyle || compareScores(score, fontStyle.score) > 0)) {
+                    fontStyle = { score, value: settings.fontStyle, selector, rule };
+                }
             }
         }
 
-        return { color: { foreground: "#D4D4D4" }, matchedScopeIndex: -1 };
+        const toSource = (best: Best | null): AttributeSource | undefined => best
+            ? {
+                selector: best.selector.text,
+                section: 'tokenColors',
+                ruleIndex: best.rule.ruleIndex,
+                themeFile: best.rule.themeFile,
+                scopeIndex: best.score.depth
+            }
+            : undefined;
+
+        const match: ThemeMatch = {
+            color: {
+                foreground: foreground?.value ?? this.getEditorColors().foreground,
+                fontStyle: fontStyle?.value
+            },
+            matchedScopeIndex: (foreground ?? fontStyle)?.score.depth ?? -1,
+            sources: {
+                foreground: toSource(foreground),
+                fontStyle: toSource(fontStyle)
+            }
+        };
+
+        const winners = new Map<string, object>();
+        if (foreground) winners.set('foreground', foreground.selector);
+        if (fontStyle) winners.set('fontStyle', fontStyle.selector);
+
+        return { match, matches, winners };
+    }
+
+    /**
+     * Which tokenColors selectors and semanticTokenColors rules styled, were
+     * shadowed for or never matched the tokens resolved so far.
+     */
+    getCoverage(): ThemeCoverageReport {
+        return {
+            tokenColors: this.coverage.report('tokenColors'),
+            semanticTokenColors: this.coverage.report('semanticTokenColors')
+        };
     }
 }
@@ -0,0 +1,161 @@
+/**
+ * TextMate scope selectors as used in theme `tokenColors` rules.
+ *
+ * Supported syntax (mirrors what VS Code themes use in practice):
+ * - `a.b`            prefix match against a single scope (`a.b` matches `a.b.c`, not `a.bc`)
+ * - `a b`            descendant: `b` must be nested somewhere inside `a`
+ * - `a > b`          child: `b` must be the direct child of `a`
+ * - `a - b`          exclusion: matches `a` unless the scope stack also matches `b`
+ * - `a, b`           comma list: either selector may match
+ */
+
+interface PathSegment {
+    scope: string;
+    // True if this segment must be the direct parent of the next segment (`a > b`)
+    direct: boolean;
+}
+
+export interface ScopeSelector {
+    text: string;
+    path: PathSegment[]; // outermost -> innermost, the last segment targets the token scope
+    exclusions: PathSegment[][];
+}
+
+export interface SelectorScore {
+    depth: number; // Index in the scope stack matched by the last path segment
+    specificity: number; // Number of dot-separated parts in the last path segment
+    parentLengths: number[]; // Lengths of the parent segments, innermost first
+    order: number; // Position of the rule in the theme, later rules win ties
+}
+
+function parsePath(text: string): PathSegment[] {
+    const segments: PathSegment[] = [];
+    for (const part of text.trim().split(/\s+/)) {
+        if (part === '') continue;
+        if (part === '>') {
+            if (segments.length > 0) segments[segments.length - 1].direct = true;
+            continue;
+        }
+        segments.push({ scope: part, direct: false });
+    }
+    return segments;
+}
+
+/**
+ * Parses a theme rule `scope` value (string or array of strings) into selectors.
+ * Empty entries are dropped, so a rule without a usable selector yields an empty array.
+ */
+export function parseScopeSelectors(scope: string | string[]): ScopeSelector[] {
+    const entries = Array.isArray(scope) ? scope : [scope];
+    const selectors: ScopeSelector[] = [];
+
+    for (const entry of entries) {
+        if (typeof entry !== 'string') continue;
+        for (const raw of entry.split(',')) {
+            const text = raw.trim();
+            if (text === '') continue;
+
+            // Scope names may contain dashes (e.g. `custom-element`), so only a
+            // whitespace-delimited dash starts an exclusion.
+            const [positive, ...excluded] = text.split(/\s+-\s+/);
+            const path = parsePath(positive);
+            if (path.length === 0) continue;
+
+            selectors.push({
+                text,
+                path,
+                exclusions: excluded.map(parsePath).filter(p => p.length > 0)
+            });
+        }
+    }
+
+    return selectors;
+}
+
+export function scopeMatches(scope: string, selectorScope: string): boolean {
+    return scope === selectorScope
+        || (scope.startsWith(selectorScope) && scope[selectorScope.length] === '.');
+}
+
+/**
+ * Checks whether `path` matches with its last segment at `scopes[leafIndex]`.
+ */
+function matchPathAt(path: PathSegment[], scopes: string[], leafIndex: number): boolean {
+    if (!scopeMatches(scopes[leafIndex], path[path.length - 1].scope)) return false;
+
+    // Walk the parent segments outwards, backtracking if a descendant match
+    // leaves no room for the remaining segments.
+    const matchParents = (segIndex: number, childIndex: number): boolean => {
+        if (segIndex < 0) return true;
+        const segment = path[segIndex];
+
+        if (segment.direct) {
+            const i = childIndex - 1;
+            return i >= 0 && scopeMatches(scopes[i], segment.scope) && matchParents(segIndex - 1, i);
+        }
+
+        for (let i = childIndex - 1; i >= 0; i--) {
+            if (scopeMatches(scopes[i], segment.scope) && matchParents(segIndex - 1, i)) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    return matchParents(path.length - 2, leafIndex);
+}
+
+function matchPathAnywhere(path: PathSegment[], scopes: string[]): boolean {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        if (matchPathAt(path, scopes, i)) return true;
+    }
+    return false;
+}
+
+/**
+ * Matches a selector against a scope stack (root first, leaf last).
+ * Returns the score of the deepest match, or null if the selector does not apply.
+ * Exclusions are checked against the whole stack, so `source - comment` never
+ * colors anything inside a comment.
+ */
+export function matchSelector(selector: ScopeSelector, scopes: string[], order: number): SelectorScore | null {
+    for (const exclusion of selector.exclusions) {
+        if (matchPathAnywhere(exclusion, scopes)) return null;
+    }
+
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        if (matchPathAt(selector.path, scopes, i)) {
+            const last = selector.path[selector.path.length - 1];
+            return {
+                depth: i,
+                specificity: last.scope.split('.').length,
+                parentLengths: selector.path.slice(0, -1).reverse().map(s => s.scope.length),
+                order
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Orders two scores the way VS Code ranks theme rules: a match on a deeper scope
+ * wins, then the more specific leaf selector, then the longer parent selectors
+ * (compared innermost first), then the larger number of parents, and finally the
+ * rule that comes later in the theme.
+ * Returns a positive number if `a` wins over `b`.
+ */
+export function compareScores(a: SelectorScore, b: SelectorScore): number {
+    if (a.depth !== b.depth) return a.depth - b.depth;
+    if (a.specificity !== b.specificity) return a.specificity - b.specificity;
+
+    const shared = Math.min(a.parentLengths.length, b.parentLengths.length);
+    for (let i = 0; i < shared; i++) {
+        if (a.parentLengths[i] !== b.parentLengths[i]) return a.parentLengths[i] - b.parentLengths[i];
+    }
+    if (a.parentLengths.length !== b.parentLengths.length) {
+        return a.parentLengths.length - b.parentLengths.length;
+    }
+
+    return a.order - b.order;
+}
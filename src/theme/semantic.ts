@@ -0,0 +1,70 @@
+/**
+ * Semantic token selectors as used in theme `semanticTokenColors` keys:
+ * `(*|type)(.modifier)*(:language)?`, e.g. `variable.readonly.static` or `function:swift`.
+ */
+
+export interface SemanticSelector {
+    text: string;
+    type: string; // '*' matches every type
+    modifiers: string[];
+    language?: string;
+}
+
+// Super types of the standard token types, see VS Code's tokenClassificationRegistry.
+// A selector for the super type also matches the sub type, with a lower score.
+const SUPER_TYPES: Record<string, string> = {
+    "class": "type",
+    "enum": "type",
+    "interface": "type",
+    "struct": "type",
+    "typeParameter": "type",
+    "member": "method"
+};
+
+export function parseSemanticSelector(text: string): SemanticSelector {
+    const [selector, language] = text.trim().split(':');
+    const [type, ...modifiers] = selector.split('.');
+    return {
+        text,
+        type: type || '*',
+        modifiers: modifiers.filter(m => m !== ''),
+        language: language || undefined
+    };
+}
+
+function getTypeHierarchy(type: string): string[] {
+    const hierarchy = [type];
+    let current = type;
+    while (SUPER_TYPES[current] && !hierarchy.includes(SUPER_TYPES[current])) {
+        current = SUPER_TYPES[current];
+        hierarchy.push(current);
+    }
+    return hierarchy;
+}
+
+/**
+ * Scores a selector against a token the way VS Code does:
+ * +10 for a matching language, +100 minus the distance in the type hierarchy for a
+ * matching type (wildcards add nothing) and +100 per required modifier.
+ * Returns -1 if the selector does not match.
+ */
+export function matchSemanticSelector(selector: SemanticSelector, type: string, modifiers: string[], language?: string): number {
+    let score = 0;
+
+    if (selector.language !== undefined) {
+        if (selector.language !== language) return -1;
+        score += 10;
+    }
+
+    if (selector.type !== '*') {
+        const level = getTypeHierarchy(type).indexOf(selector.type);
+        if (level === -1) return -1;
+        score += 100 - level;
+    }
+
+    for (const modifier of selector.modifiers) {
+        if (!modifiers.includes(modifier)) return -1;
+    }
+
+    return score + selector.modifiers.length * 100;
+}
@@ -0,0 +1,64 @@
+import * as vsctm from 'vscode-textmate';
+
+import type { VSCodeTheme, ThemeRule } from './resolver.js';
+
+// Global tmTheme settings that VS Code maps to workbench colors
+const GLOBAL_SETTING_COLORS: Record<string, string> = {
+    "foreground": "editor.foreground",
+    "background": "editor.background",
+    "caret": "editorCursor.foreground",
+    "selection": "editor.selectionBackground",
+    "lineHighlight": "editor.lineHighlightBackground",
+    "invisibles": "editorWhitespace.foreground",
+    "guide": "editorIndentGuide.background"
+};
+
+interface TmThemeEntry {
+    name?: string;
+    scope?: string;
+    settings?: Record<string, string>;
+}
+
+export function isTmTheme(filePath: string, content: string): boolean {
+    return /\.tmTheme$/i.test(filePath) || /^\s*(<\?xml|<!DOCTYPE plist|<plist)/.test(content);
+}
+
+/**
+ * Converts a TextMate `.tmTheme` (plist XML) into the JSON theme model.
+ * Entries with a scope become tokenColors rules, the global entry (no scope)
+ * provides the editor colors like the default foreground and background.
+ */
+export function parseTmTheme(content: string): VSCodeTheme {
+    // vscode-textmate ships the plist parser it uses for .tmLanguage files;
+    // without a file path it returns the plain plist object.
+    const plist = vsctm.parseRawGrammar(content) as unknown as { name?: string; settings?: TmThemeEntry[] };
+    if (!plist || !Array.isArray(plist.settings)) {
+        throw new Error("Not a tmTheme: missing 'settings' array");
+    }
+
+    const colors: Record<string, string> = {};
+    const tokenColors: ThemeRule[] = [];
+
+    for (const entry of plist.settings) {
+        if (!entry.settings) continue;
+
+        if (!entry.scope) {
+            for (const [key, colorKey] of Object.entries(GLOBAL_SETTING_COLORS)) {
+                if (typeof entry.settings[key] === 'string') {
+                    colors[colorKey] = entry.settings[key];
+                }
+            }
+            continue;
+        }
+
+        tokenColors.push({
+            scope: entry.scope,
+            settings: {
+                foreground: entry.settings.foreground,
+                fontStyle: entry.settings.fontStyle
+            }
+        });
+    }
+
+    return { name: plist.name, colors, tokenColors };
+}
@@ -3,6 +3,27 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 
+// Where the default themes (Dark+, Light Modern, ...) are loaded from:
+// 'installed' requires a local VS Code, 'bundled' uses the copies shipped with this tool,
+// 'auto' prefers an installed VS Code and falls back to the bundled copies.
+export type ThemeSource = 'auto' | 'bundled' | 'installed';
+
+// Copies of VS Code's theme-defaults extension (MIT licensed, see README)
+export const BUNDLED_THEME_DIR = path.join(import.meta.dir, '../theme/defaults');
+
+export function findDefaultThemeDir(source: ThemeSource = 'auto'): string | null {
+    if (source === 'bundled') {
+        return BUNDLED_THEME_DIR;
+    }
+
+    const installedDir = findVsCodeThemeDir();
+    if (source === 'installed' || installedDir) {
+        return installedDir;
+    }
+
+    return BUNDLED_THEME_DIR;
+}
+
 export function findVsCodeThemeDir(): string | null {
     const platform = os.platform();
     
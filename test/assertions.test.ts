@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import { parseAssertions, checkAssertions, getMergedScopes } from "../src/textmate/assertions";
+import type { StyledRange } from "../src/overlay/merger";
+
+describe("Scope assertions", () => {
+    it("should parse assertions and remove them from the content", () => {
+        const { content, assertions } = parseAssertions([
+            'let x = "a"',
+            '// ^^ keyword.declaration',
+            '//      ^^^ string.quoted.double - comment',
+            '// <- keyword.declaration',
+            'x + 1',
+            '  # <~~-- constant.numeric'
+        ].join('\n'), '//');
+
+        expect(content).toBe('let x = "a"\nx + 1\n  # <~~-- constant.numeric');
+        expect(assertions).toEqual([
+            { line: 0, fixtureLine: 2, columns: [3, 4], scopes: ["keyword.declaration"], excludes: [] },
+            { line: 0, fixtureLine: 3, columns: [8, 9, 10], scopes: ["string.quoted.double"], excludes: ["comment"] },
+            { line: 0, fixtureLine: 4, columns: [0], scopes: ["keyword.declaration"], excludes: [] }
+        ]);
+
+        // Other comment tokens, `<~` skips columns
+        expect(parseAssertions('x + 1\n  # <~~-- constant.numeric', '#').assertions).toEqual([
+            { line: 0, fixtureLine: 2, columns: [2, 3], scopes: ["constant.numeric"], excludes: [] }
+        ]);
+    });
+
+    it("should reject assertions without a source line above", () => {
+        expect(() => parseAssertions('// ^ source\nx', '//')).toThrow("Assertion on line 1 has no source line above it");
+    });
+
+    it("should report the first failing column of each assertion", () => {
+        const { assertions } = parseAssertions([
+            'let x',
+            '// <--- source.test keyword.let',
+            '//^^ source.test - keyword.let',
+            '//   ^ variable',
+            '//     ^ source.test'
+        ].join('\n'), '//');
+
+        const scopesAt = (line: number, column: number) => {
+            if (column < 3) return ["source.test", "meta.let", "keyword.let"];
+            if (column < 6) return ["source.test"];
+            return null;
+        };
+
+        const failures = checkAssertions(assertions, scopesAt);
+        expect(failures.map(({ assertion, ...failure }) => ({ fixtureLine: assertion.fixtureLine, ...failure }))).toEqual([
+            { fixtureLine: 3, column: 2, actual: ["source.test", "meta.let", "keyword.let"], missing: [], unexpected: ["keyword.let"] },
+            { fixtureLine: 4, column: 5, actual: ["source.test"], missing: ["variable"], unexpected: [] },
+            { fixtureLine: 5, column: 7, actual: null, missing: ["source.test"], unexpected: [] }
+        ]);
+
+        // Expected scopes have to be in order
+        const reversed = parseAssertions('x\n// <- keyword.let source.test', '//').assertions;
+        expect(checkAssertions(reversed, scopesAt)[0].missing).toEqual(["source.test"]);
+    });
+
+    it("should list semantic types and modifiers before the TextMate scopes", () => {
+        const range: StyledRange = {
+            startLine: 0, startChar: 0, endLine: 0, endChar: 3, text: "foo",
+            source: 'semantic',
+            scopes: ["function", "modifiers: declaration,async", "__TM_SCOPES__", "source.test", "entity.name.function"]
+        } as StyledRange;
+
+        expect(getMergedScopes(range)).toEqual(["function", "function.declaration", "function.async", "source.test", "entity.name.function"]);
+    });
+});
@@ -2,17 +2,64 @@
 import { 
     InitializeResult 
 } from 'vscode-languageserver-protocol';
+import net from 'node:net';
 
-const stdin = process.stdin;
-const stdout = process.stdout;
+// Talks over stdio by default, `--socket=PORT` connects to the client, `--listen=PORT|PATH` waits for it
+const argValue = (name: string) => process.argv.find(a => a.startsWith(`${name}=`))?.split('=')[1];
+let output: { write(data: string): unknown } = process.stdout;
+
+// Bugs to test the range and delta checks
+const buggyRange = process.argv.includes('--buggy-range');
+const buggyDelta = process.argv.includes('--buggy-delta');
+// Registers semantic tokens after `initialized` and sends other server -> client requests
+const dynamicRegistration = process.argv.includes('--dynamic-registration');
+const clientResponses: Record<string, any> = {}; // Request id -> response of the client
+// Lifecycle problems: exiting or never answering on semanticTokens/full, cancelling the
+// first N full requests and indexing every opened file with its own progress. While
+// indexing, every full request returns the tokens found so far and finds one more,
+// `dummy/finishIndexing` finishes at once.
+const crash = process.argv.includes('--crash');
+const hang = process.argv.includes('--hang');
+let contentModified = Number(argValue('--content-modified') ?? 0);
+const indexOpenedFiles = process.argv.includes('--indexing');
+let indexing = false;
+let indexedTokens = 0;
+let indexedFiles = 0;
+
+let initializeParams: any = null;
+let settings: any = null; // From workspace/didChangeConfiguration
 
 let buffer = Buffer.alloc(0);
+const documents = new Map<string, string>();
+const results = new Map<string, number[]>(); // resultId -> data
+let nextResultId = 1;
 
-stdin.on('data', (chunk) => {
+function receive(chunk: Buffer | string) {
     const chunkBuf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
     buffer = Buffer.concat([buffer, chunkBuf]);
     processBuffer();
-});
+}
+
+function useSocket(socket: net.Socket) {
+    output = socket;
+    socket.on('data', receive);
+    socket.on('close', () => process.exit(0));
+}
+
+const socketPort = argValue('--socket');
+const listenAt = argValue('--listen');
+if (socketPort) {
+    useSocket(net.connect(Number(socketPort), '127.0.0.1'));
+} else if (listenAt) {
+    const server = net.createServer(socket => {
+        server.close();
+        useSocket(socket);
+    });
+    if (/^\d+$/.test(listenAt)) server.listen(Number(listenAt), '127.0.0.1');
+    else server.listen(listenAt);
+} else {
+    process.stdin.on('data', receive);
+}
 
 function processBuffer() {
     while (true) {
@@ -44,20 +91,68 @@ function processBuffer() {
 function send(msg: any) {
     const json = JSON.stringify(msg);
     const content = `Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`;
-    stdout.write(content);
+    output.write(content);
+}
+
+// "hello" is a function, "test" a variable declaration: [line, character, length, type, modifiers]
+function findTokens(text: string): number[][] {
+    const tokens: number[][] = [];
+    text.split('\n').forEach((line, lineIndex) => {
+        for (const match of line.matchAll(/\b(hello|test)\b/g)) {
+            tokens.push(match[1] === 'hello' ? [lineIndex, match.index!, 5, 1, 0] : [lineIndex, match.index!, 4, 0, 1]);
+        }
+    });
+    return tokens;
+}
+
+// Relative encoding, starting at `line` (0 for correct results)
+function encode(tokens: number[][], line: number = 0): number[] {
+    const data: number[] = [];
+    let character = 0;
+    for (const [tokenLine, tokenCharacter, length, type, modifiers] of tokens) {
+        data.push(tokenLine - line, tokenLine === line ? tokenCharacter - character : tokenCharacter, length, type, modifiers);
+        line = tokenLine;
+        character = tokenCharacter;
+    }
+    return data;
+}
+
+function offsetAt(text: string, position: { line: number; character: number }): number {
+    const lines = text.split('\n');
+    return lines.slice(0, position.line).reduce((sum, l) => sum + l.length + 1, 0) + position.character;
+}
+
+function fullResult(uri: string) {
+    const resultId = String(nextResultId++);
+    const data = encode(findTokens(documents.get(uri) ?? ''));
+    results.set(resultId, data);
+    return { resultId, data };
+}
+
+const semanticTokensProvider = {
+    legend: {
+        tokenTypes: ['variable', 'function'],
+        tokenModifiers: ['declaration', 'readonly']
+    },
+    full: { delta: true },
+    range: true
+};
+
+function finishIndexing() {
+    if (!indexing) return;
+    indexing = false;
+    send({ jsonrpc: "2.0", method: "$/progress", params: { token: `indexing-${indexedFiles}`, value: { kind: "end" } } });
 }
 
 function handleMessage(msg: any) {
-    if (msg.method === 'initialize') {
+    if (msg.id !== undefined && !msg.method) {
+        clientResponses[msg.id] = msg.error ? { error: msg.error } : { result: msg.result };
+    } else if (msg.method === 'initialize') {
+        initializeParams = msg.params;
         const result: InitializeResult = {
             capabilities: {
-                semanticTokensProvider: {
-                    legend: {
-                        tokenTypes: ['variable', 'function'],
-                        tokenModifiers: ['declaration', 'readonly']
-                    },
-                    full: true
-                }
+                ...(dynamicRegistration ? {} : { semanticTokensProvider }),
+                textDocumentSync: 2 // Incremental
             }
         };
         send({
@@ -65,26 +160,85 @@ function handleMessage(msg: any) {
             id: msg.id,
             result
         });
+    } else if (msg.method === 'dummy/finishIndexing') {
+        finishIndexing();
+    } else if (msg.method === 'initialized' && dynamicRegistration) {
+        send({ jsonrpc: "2.0", id: "configuration", method: "workspace/configuration", params: { items: [{ section: "dummy" }, { section: "other.flag" }] } });
+        send({ jsonrpc: "2.0", id: "progress", method: "window/workDoneProgress/create", params: { token: "indexing" } });
+        send({ jsonrpc: "2.0", id: "unknown", method: "dummy/unknown", params: {} });
+        // Same id as the client's first requests
+        send({ jsonrpc: "2.0", id: 1, method: "client/registerCapability", params: {
+            registrations: [{ id: "semantic-tokens", method: "textDocument/semanticTokens", registerOptions: semanticTokensProvider }]
+        } });
+    } else if (msg.method === 'workspace/didChangeConfiguration') {
+        settings = msg.params.settings;
+    } else if (msg.method === 'dummy/session') {
+        send({ jsonrpc: "2.0", id: msg.id, result: { initializeParams, settings, env: process.env.DUMMY_LSP_ENV ?? null, cwd: process.cwd() } });
+    } else if (msg.method === 'dummy/clientResponses') {
+        send({ jsonrpc: "2.0", id: msg.id, result: clientResponses });
+    } else if (msg.method === 'textDocument/didOpen') {
+        documents.set(msg.params.textDocument.uri, msg.params.textDocument.text);
+        if (indexOpenedFiles) {
+            const token = `indexing-${++indexedFiles}`;
+            indexing = true;
+            indexedTokens = 0;
+            send({ jsonrpc: "2.0", id: token, method: "window/workDoneProgress/create", params: { token } });
+            send({ jsonrpc: "2.0", method: "$/progress", params: { token, value: { kind: "begin", title: "Indexing" } } });
+        }
+    } else if (msg.method === 'textDocument/didChange') {
+        const uri = msg.params.textDocument.uri;
+        for (const change of msg.params.contentChanges) {
+            const text = documents.get(uri) ?? '';
+            documents.set(uri, change.range
+                ? text.substring(0, offsetAt(text, change.range.start)) + change.text + text.substring(offsetAt(text, change.range.end))
+                : change.text);
+        }
     } else if (msg.method === 'textDocument/semanticTokens/full') {
-        // Return some dummy tokens
-        // format: line, startChar, length, tokenType, tokenModifiers
-        // input: 
-        // function hello "world"
-        // var test
-        
-        // Let's mark "hello" (line 0, col 9, len 5) as function (idx 1)
-        // Let's mark "test" (line 1, col 4, len 4) as variable (idx 0)
-        
-        const data = [
-            0, 9, 5, 1, 0, // hello (function)
-            1, 4, 4, 0, 1  // test (variable + declaration)
-        ];
-        
-        send({
-            jsonrpc: "2.0",
-            id: msg.id,
-            result: { data }
-        });
+        // input.txt:
+        // function hello "world"   -> "hello" (line 0, col 9, len 5) is a function
+        // var test                 -> "test" (line 1, col 4, len 4) is a variable declaration
+        if (crash) {
+            console.error("dummy-lsp: out of memory");
+            process.exit(3);
+        } else if (hang) {
+            return;
+        } else if (contentModified > 0) {
+            contentModified--;
+            send({ jsonrpc: "2.0", id: msg.id, error: { code: -32801, message: "Content modified" } });
+        } else if (indexing) {
+            const tokens = findTokens(documents.get(msg.params.textDocument.uri) ?? '');
+            send({ jsonrpc: "2.0", id: msg.id, result: { data: encode(tokens.slice(0, indexedTokens++)) } });
+            if (indexedTokens > tokens.length) finishIndexing();
+        } else {
+            send({ jsonrpc: "2.0", id: msg.id, result: fullResult(msg.params.textDocument.uri) });
+        }
+    } else if (msg.method === 'textDocument/semanticTokens/range') {
+        const { start, end } = msg.params.range;
+        const tokens = findTokens(documents.get(msg.params.textDocument.uri) ?? '')
+            .filter(([line]) => line >= start.line && line <= end.line);
+        send({ jsonrpc: "2.0", id: msg.id, result: { data: encode(tokens, buggyRange ? start.line : 0) } });
+    } else if (msg.method === 'textDocument/semanticTokens/full/delta') {
+        const previous = results.get(msg.params.previousResultId);
+        const result = fullResult(msg.params.textDocument.uri);
+        if (!previous) {
+            send({ jsonrpc: "2.0", id: msg.id, result });
+            return;
+        }
+
+        // A single edit replacing everything between the common prefix and suffix
+        let prefix = 0;
+        while (prefix < previous.length && prefix < result.data.length && previous[prefix] === result.data[prefix]) prefix++;
+        let suffix = 0;
+        while (suffix < previous.length - prefix && suffix < result.data.length - prefix
+            && previous[previous.length - 1 - suffix] === result.data[result.data.length - 1 - suffix]) suffix++;
+
+        const deleteCount = previous.length - prefix - suffix;
+        const edits = deleteCount === 0 && result.data.length === previous.length ? [] : [{
+            start: prefix,
+            deleteCount: buggyDelta ? Math.max(0, deleteCount - 1) : deleteCount,
+            data: result.data.slice(prefix, result.data.length - suffix)
+        }];
+        send({ jsonrpc: "2.0", id: msg.id, result: { resultId: result.resultId, edits } });
     } else if (msg.method === 'shutdown') {
         send({
             jsonrpc: "2.0",
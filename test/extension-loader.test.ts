@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { loadExtension, findExtensionTheme } from "../src/extension/loader";
+import { zipSync, strToU8 } from "fflate";
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+describe("loadExtension", () => {
+    let tmpDir: string;
+
+    const manifest = {
+        name: "test-extension",
+        displayName: "%displayName%",
+        contributes: {
+            grammars: [
+                {
+                    language: "test",
+                    scopeName: "source.test",
+                    path: "./syntaxes/test.tmLanguage.json",
+                    embeddedLanguages: { "meta.embedded.sql": "sql" },
+                    tokenTypes: { "string.template": "other" }
+                },
+                {
+                    scopeName: "todo.injection",
+                    path: "./syntaxes/todo.json",
+                    injectTo: ["source.test"]
+                }
+            ],
+            themes: [
+                { label: "%darkLabel%", uiTheme: "vs-dark", path: "./themes/dark.json" },
+                { id: "test-light", label: "Test Light", uiTheme: "vs", path: "./themes/light.json" }
+            ],
+            semanticTokenScopes: [
+                { language: "test", scopes: { "macro": ["entity.name.function.macro.test"] } }
+            ]
+        }
+    };
+    const nls = { displayName: "Test Extension", darkLabel: "Test Dark" };
+
+    beforeAll(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'extension-loader-test-'));
+        fs.writeFileSync(path.join(tmpDir, 'package.json'), JSON.stringify(manifest));
+        fs.writeFileSync(path.join(tmpDir, 'package.nls.json'), JSON.stringify(nls));
+    });
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should read contributions from an extension folder", () => {
+        const extension = loadExtension(tmpDir);
+
+        expect(extension.name).toBe("Test Extension");
+        expect(extension.grammars).toHaveLength(2);
+        expect(extension.grammars[0].path).toBe(path.join(tmpDir, 'syntaxes/test.tmLanguage.json'));
+        expect(extension.grammars[0].embeddedLanguages).toEqual({ "meta.embedded.sql": "sql" });
+        expect(extension.grammars[1].injectTo).toEqual(["source.test"]);
+        expect(extension.semanticTokenScopes[0].scopes.macro).toEqual(["entity.name.function.macro.test"]);
+
+        // Labels are localized through package.nls.json
+        expect(findExtensionTheme(extension)!.label).toBe("Test Dark");
+        expect(findExtensionTheme(extension, "Test Dark")!.path).toBe(path.join(tmpDir, 'themes/dark.json'));
+        expect(findExtensionTheme(extension, "test-light")!.uiTheme).toBe("vs");
+        expect(findExtensionTheme(extension, "Missing")).toBeUndefined();
+    });
+
+    it("should read contributions from a .vsix file", () => {
+        const vsixPath = path.join(tmpDir, 'test-extension.vsix');
+        fs.writeFileSync(vsixPath, zipSync({
+            "extension.vsixmanifest": strToU8("<PackageManifest />"),
+            "extension/package.json": strToU8(JSON.stringify(manifest)),
+            "extension/package.nls.json": strToU8(JSON.stringify(nls)),
+            "extension/syntaxes/test.tmLanguage.json": strToU8("{}")
+        }));
+
+        const extension = loadExtension(vsixPath);
+
+        expect(extension.name).toBe("Test Extension");
+        expect(fs.existsSync(extension.grammars[0].path)).toBe(true);
+        expect(extension.themes.map(t => t.label)).toEqual(["Test Dark", "Test Light"]);
+    });
+
+    it("should fail if there is no package.json", () => {
+        const emptyDir = path.join(tmpDir, 'empty');
+        fs.mkdirSync(emptyDir);
+        expect(() => loadExtension(emptyDir)).toThrow("No package.json");
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import * as vsctm from 'vscode-textmate';
+import { TextMateEngine } from "../src/textmate/grammar";
+import { checkEdits, checkRetokenizeLines } from "../src/textmate/incremental";
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+// Tokenizes "leak" differently (and ends in another state) unless it's part of a full tokenization
+class LeakyEngine extends TextMateEngine {
+    private full = false;
+
+    tokenizeLines(lines: string[]) {
+        this.full = true;
+        const result = super.tokenizeLines(lines);
+        this.full = false;
+        return result;
+    }
+
+    tokenizeLine(text: string, line: number, ruleStack: vsctm.StateStack, timeLimit: number = 0) {
+        const result = super.tokenizeLine(text, line, ruleStack, timeLimit);
+        if (this.full || !text.includes('leak')) return result;
+        return {
+            ...result,
+            tokens: result.tokens.map(t => ({ ...t, scopes: [...t.scopes, "leaked"] })),
+            ruleStack: super.tokenizeLine('"', line, result.ruleStack).ruleStack
+        };
+    }
+}
+
+describe("Incremental tokenization", () => {
+    let tmpDir: string;
+    let grammarPath: string;
+    const content = 'a "b\nc\nd" e\nf';
+
+    beforeAll(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'incremental-'));
+        grammarPath = path.join(tmpDir, 'test.json');
+        fs.writeFileSync(grammarPath, JSON.stringify({
+            scopeName: "source.test",
+            patterns: [
+                { begin: "\"", end: "\"", name: "string.quoted.double.test" },
+                { match: "\\b[a-z]+\\b", name: "variable.test" }
+            ]
+        }));
+    });
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should keep the rule stack at every line", async () => {
+        const engine = new TextMateEngine(grammarPath, "source.test");
+        await engine.init();
+
+        const { tokens, ruleStacks } = engine.tokenizeLines(content.split('\n'));
+        expect(tokens.map(line => line.length)).toEqual([4, 1, 4, 1]);
+        expect(ruleStacks.map(s => s.depth)).toEqual([2, 2, 1, 1]);
+        expect(checkRetokenizeLines(engine, content)).toEqual([]);
+    });
+
+    it("should match a full tokenization after edits", async () => {
+        const engine = new TextMateEngine(grammarPath, "source.test");
+        await engine.init();
+
+        expect(checkEdits(engine, content, [
+            { line: 0, character: 2, deleteCount: 1 }, // Closes the string early
+            { line: 0, character: 2, text: '"' },
+            { line: 1, character: 1, text: '\n"\n' },
+            { line: 1, character: 1, deleteCount: 3 },
+            { line: 3, character: 1, text: ' "g' }
+        ])).toEqual([]);
+    });
+
+    it("should reject edits outside the document", async () => {
+        const engine = new TextMateEngine(grammarPath, "source.test");
+        await engine.init();
+
+        expect(() => checkEdits(engine, content, [{ line: 4, character: 0, text: "x" }])).toThrow("Edit at 4:0 is outside the document");
+    });
+
+    it("should report lines that differ from a full tokenization", async () => {
+        const engine = new LeakyEngine(grammarPath, "source.test");
+        await engine.init();
+
+        // The edited line leaks, its state doesn't converge and the following line differs
+        const issues = checkEdits(engine, 'a\nleak\nb', [{ line: 1, character: 0, text: "x" }]);
+        expect(issues.map(i => [i.edit, i.line, i.kind])).toEqual([[0, 1, 'state'], [0, 1, 'tokens'], [0, 2, 'tokens']]);
+        expect(issues[1].message).toBe("Incremental tokens differ from a full tokenization: incremental 0-5 source.test variable.test leaked, full 0-5 source.test variable.test");
+    });
+
+    it("should find rule stacks that compare equal but tokenize differently", async () => {
+        // `\G` matches at the start of the next line only if `begin` matched the line break,
+        // which the rule stack doesn't take into account when comparing
+        const anchoredPath = path.join(tmpDir, 'anchored.json');
+        fs.writeFileSync(anchoredPath, JSON.stringify({
+            scopeName: "source.anchored",
+            patterns: [{
+                begin: "\\{\\n?", end: "\\}", name: "meta.block.anchored",
+                patterns: [{ match: "\\G[a-z]+", name: "entity.name.first.anchored" }]
+            }]
+        }));
+        const engine = new TextMateEngine(anchoredPath, "source.anchored");
+        await engine.init();
+
+        // Clearing line 2 ends it in a state equal to the stored one, so VS Code keeps the old tokens of "abc"
+        const issues = checkRetokenizeLines(engine, '{\n} {x\nabc');
+        expect(issues).toEqual([{
+            clearedLine: 1,
+            line: 2,
+            kind: 'tokens',
+            message: "Incremental tokens differ from a full tokenization: incremental 0-4 source.anchored meta.block.anchored, full 0-3 source.anchored meta.block.anchored entity.name.first.anchored"
+        }]);
+        expect(checkRetokenizeLines(engine, '{\nabc\n}')).toEqual([]);
+    });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from "bun:test";
+import { LspClient, LspClientOptions } from "../src/lsp/client";
+import { applySemanticTokensEdits, checkSemanticTokenRequests } from "../src/lsp/consistency";
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+
+const dummyLsp = path.join(import.meta.dir, 'dummy-lsp.ts');
+const uri = 'file:///input.txt';
+const content = 'function hello "world"\nvar test';
+
+async function startClient(...args: string[]): Promise<LspClient> {
+    return startClientWith({}, ...args);
+}
+
+async function startClientWith(options: LspClientOptions, ...args: string[]): Promise<LspClient> {
+    const client = new LspClient(["bun", "run", dummyLsp, ...args], options);
+    await client.start('file:///');
+    return client;
+}
+
+describe("LspClient semantic token requests", () => {
+    it("should answer server requests and apply dynamic registrations", async () => {
+        const client = new LspClient(["bun", "run", dummyLsp, '--dynamic-registration']);
+        client.onRequest('workspace/configuration', (params) => params.items.map((item: any) => item.section === 'dummy' ? { enabled: true } : null));
+        await client.start('file:///');
+        try {
+            expect(client.legend).toBeNull();
+            const tokens = await client.getSemanticTokens(uri, content);
+
+            expect(client.legend!.tokenTypes).toEqual(['variable', 'function']);
+            expect(client.serverCapabilities.semanticTokensProvider).toBeDefined();
+            expect(tokens!.data).toEqual([0, 9, 5, 1, 0, 1, 4, 4, 0, 1]);
+
+            expect(await client.sendRequest<Record<string, unknown>>('dummy/clientResponses', {})).toEqual({
+                "configuration": { result: [{ enabled: true }, null] },
+                "progress": { result: null },
+                "unknown": { error: { code: -32601, message: "Unhandled method dummy/unknown" } },
+                "1": { result: null }
+            });
+        } finally {
+            await client.shutdown();
+        }
+    });
+
+    it("should pass the start options to the server", async () => {
+        const cwd = fs.realpathSync(os.tmpdir());
+        const client = new LspClient(["bun", "run", dummyLsp, '--dynamic-registration']);
+        await client.start('file:///', {
+            initializationOptions: { index: false },
+            settings: { "dummy": { enabled: true }, "other.flag": 1 },
+            env: { DUMMY_LSP_ENV: "set" },
+            cwd,
+            tokenTypes: ['function'],
+            tokenModifiers: ['readonly'],
+            multilineTokenSupport: true,
+            overlappingTokenSupport: false,
+            positionEncodings: ['utf-16']
+        });
+        try {
+            await client.getSemanticTokens(uri, content);
+            const session = await client.sendRequest<any>('dummy/session', {});
+
+            expect(session.initializeParams.initializationOptions).toEqual({ index: false });
+            expect(session.initializeParams.capabilities.textDocument.semanticTokens).toMatchObject({
+                tokenTypes: ['function'],
+                tokenModifiers: ['readonly'],
+                multilineTokenSupport: true,
+                overlappingTokenSupport: false
+            });
+            expect(session.initializeParams.capabilities.general.positionEncodings).toEqual(['utf-16']);
+            expect(session.settings).toEqual({ "dummy": { enabled: true }, "other.flag": 1 });
+            expect(session.env).toBe("set");
+            expect(session.cwd).toBe(cwd);
+
+            // Sections are looked up as keys and as paths
+            const responses = await client.sendRequest<Record<string, any>>('dummy/clientResponses', {});
+            expect(responses["configuration"]).toEqual({ result: [{ enabled: true }, 1] });
+        } finally {
+            await client.shutdown();
+        }
+    });
+
+    it("should apply delta edits to the previous data", () => {
+        const data = [0, 9, 5, 1, 0, 1, 4, 4, 0, 1];
+        expect(applySemanticTokensEdits(data, [
+            { start: 7, deleteCount: 3, data: [5, 1, 0] },
+            { start: 0, deleteCount: 0, data: [0, 0, 3, 0, 0] }
+        ])).toEqual([0, 0, 3, 0, 0, 0, 9, 5, 1, 0, 1, 4, 5, 1, 0]);
+
+        expect(() => applySemanticTokensEdits(data, [{ start: 8, deleteCount: 5 }])).toThrow("Invalid delta edit (start 8, deleteCount 5) for 10 numbers");
+    });
+
+    it("should match range and delta results to full results", async () => {
+        const client = await startClient();
+        try {
+            const full = (await client.getSemanticTokens(uri, content))!;
+            const result = await checkSemanticTokenRequests(client, uri, content, full, {
+                edits: [
+                    { line: 1, character: 4, deleteCount: 4, text: "hello" },
+                    { line: 0, character: 0, text: "test\n" }
+                ]
+            });
+            expect(result).toEqual({ issues: [], skipped: [] });
+        } finally {
+            await client.shutdown();
+        }
+    });
+
+    it("should report range and delta results that differ", async () => {
+        const client = await startClient('--buggy-range', '--buggy-delta');
+        try {
+            const full = (await client.getSemanticTokens(uri, content))!;
+            const { issues } = await checkSemanticTokenRequests(client, uri, content, full, {
+                edits: [{ line: 1, character: 4, deleteCount: 4, text: "hello" }]
+            });
+            expect(issues).toEqual([
+                { request: 'range', message: "Range 2:1-2:9 differs from the full result: missing 1:4+4 variable.declaration" },
+                { request: 'delta', edit: 0, message: "Delta result has 11 numbers, not a multiple of 5" }
+            ]);
+        } finally {
+            await client.shutdown();
+        }
+    });
+});
+
+describe("LspClient lifecycle", () => {
+    const expected = [0, 9, 5, 1, 0, 1, 4, 4, 0, 1];
+
+    it("should reject pending requests when the server exits", async () => {
+        const client = await startClient('--crash');
+        client.sendNotification('textDocument/didOpen', { textDocument: { uri, languageId: 'plaintext', version: 1, text: content } });
+
+        await expect(client.requestSemanticTokensFull(uri)).rejects.toThrow("Language server exited with code 3, stderr:\ndummy-lsp: out of memory");
+        expect(client.exitError).not.toBeNull();
+        await expect(client.sendRequest('shutdown', {})).rejects.toBe(client.exitError!);
+    });
+
+    it("should time out requests", async () => {
+        const client = await startClientWith({ requestTimeout: 200 }, '--hang');
+        try {
+            client.sendNotification('textDocument/didOpen', { textDocument: { uri, languageId: 'plaintext', version: 1, text: content } });
+            await expect(client.requestSemanticTokensFull(uri)).rejects.toThrow("LSP request textDocument/semanticTokens/full timed out after 200 ms");
+        } finally {
+            await client.shutdown();
+        }
+    });
+
+    it("should retry cancelled semantic token requests", async () => {
+        const client = await startClientWith({ retryDelay: 10 }, '--content-modified=2');
+        try {
+            expect((await client.getSemanticTokens(uri, content))!.data).toEqual(expected);
+        } finally {
+            await client.shutdown();
+        }
+
+        const impatient = await startClientWith({ retries: 1, retryDelay: 10 }, '--content-modified=2');
+        try {
+            impatient.sendNotification('textDocument/didOpen', { textDocument: { uri, languageId: 'plaintext', version: 1, text: content } });
+            await expect(impatient.requestSemanticTokensFull(uri)).rejects.toMatchObject({ code: -32801 });
+        } finally {
+            await impatient.shutdown();
+        }
+    });
+
+    it("should wait until the server is ready", async () => {
+        // Without waiting, the server is still indexing
+        const eager = await startClientWith({ readiness: { strategy: 'none' } }, '--indexing');
+        try {
+            expect((await eager.getSemanticTokens(uri, content))!.data).toEqual([]);
+        } finally {
+            await eager.shutdown();
+        }
+
+        // Indexing ends with the notification, which reaches the server before any request after waiting
+        const waiting: LspClientOptions['readiness'][] = [{ strategy: 'progress' }, { strategy: 'delay', delay: 10 }];
+        for (const readiness of waiting) {
+            const client = await startClientWith({ readiness }, '--indexing');
+            try {
+                const tokens = client.getSemanticTokens(uri, content);
+                client.sendNotification('dummy/finishIndexing', {});
+                expect((await tokens)!.data).toEqual(expected);
+            } finally {
+                await client.shutdown();
+            }
+        }
+
+        // Each opened file waits for its own progress, not the one of the file before
+        const client = await startClientWith({ readiness: { strategy: 'progress' } }, '--indexing');
+        let indexingStarted = () => {};
+        client.onRequest('window/workDoneProgress/create', () => {
+            indexingStarted();
+            return null;
+        });
+        try {
+            for (const fileUri of [uri, 'file:///other.txt']) {
+                const started = new Promise<void>(resolve => indexingStarted = resolve);
+                const tokens = client.getSemanticTokens(fileUri, content);
+                await started;
+                client.sendNotification('dummy/finishIndexing', {});
+                expect((await tokens)!.data).toEqual(expected);
+            }
+        } finally {
+            await client.shutdown();
+        }
+
+        // Every request indexes one more token: [], one token, both tokens, then the same twice more
+        const polling = await startClientWith({ readiness: { strategy: 'stable', polls: 3, delay: 0 } }, '--indexing');
+        try {
+            expect((await polling.getSemanticTokens(uri, content))!.data).toEqual(expected);
+        } finally {
+            await polling.shutdown();
+        }
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { LspClient, LspClientOptions } from "../src/lsp/client";
+import { ProcessTransport } from "../src/lsp/transport";
+import { LspRecorder, ReplayTransport } from "../src/lsp/recording";
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+const dummyLsp = path.join(import.meta.dir, 'dummy-lsp.ts');
+const rootUri = 'file:///project';
+const uri = `${rootUri}/input.txt`;
+const content = 'function hello "world"\nvar test';
+
+async function record(recordingPath: string, args: string[] = [], options: LspClientOptions = {}) {
+    const recorder = new LspRecorder(new ProcessTransport(["bun", "run", dummyLsp, ...args]));
+    const client = new LspClient(recorder, options);
+    await client.start(rootUri);
+    const tokens = await client.getSemanticTokens(uri, content);
+    await client.shutdown();
+    recorder.save(recordingPath);
+    return tokens;
+}
+
+describe("LSP recording and replay", () => {
+    let tmpDir: string;
+
+    beforeAll(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-recording-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should replay the recorded semantic tokens without a server", async () => {
+        const recordingPath = path.join(tmpDir, 'session.json');
+        const recorded = await record(recordingPath);
+
+        const recording = JSON.parse(fs.readFileSync(recordingPath, 'utf8'));
+        expect(Object.keys(recording.documents)).toEqual(['input.txt']);
+        expect(recording.transcript.length).toBeGreaterThan(0);
+
+        // Another checkout: documents are matched relative to the root
+        const replay = ReplayTransport.load(recordingPath);
+        const client = new LspClient(replay);
+        await client.start('file:///elsewhere');
+        const otherUri = 'file:///elsewhere/input.txt';
+
+        expect(client.legend!.tokenTypes).toEqual(['variable', 'function']);
+        expect(replay.checkDocument(otherUri, content)).toBeNull();
+        expect(await client.getSemanticTokens(otherUri, content)).toEqual(recorded!);
+        await expect(client.requestSemanticTokensRange(otherUri, { start: { line: 0, character: 0 }, end: { line: 1, character: 0 } }))
+            .rejects.toMatchObject({ message: "textDocument/semanticTokens/range is not replayed from recordings" });
+        await client.shutdown();
+    });
+
+    it("should replay dynamic registrations", async () => {
+        const recordingPath = path.join(tmpDir, 'dynamic.json');
+        await record(recordingPath, ['--dynamic-registration']);
+
+        const client = new LspClient(ReplayTransport.load(recordingPath));
+        await client.start(rootUri);
+        const tokens = await client.getSemanticTokens(uri, content);
+
+        expect(client.legend!.tokenTypes).toEqual(['variable', 'function']);
+        expect(tokens!.data).toEqual([0, 9, 5, 1, 0, 1, 4, 4, 0, 1]);
+        await client.shutdown();
+    });
+
+    it("should replay the tokens the client got after retrying", async () => {
+        const recordingPath = path.join(tmpDir, 'retried.json');
+        const recorded = await record(recordingPath, ['--content-modified=1'], { retries: 2, retryDelay: 10 });
+        expect(recorded!.data).toEqual([0, 9, 5, 1, 0, 1, 4, 4, 0, 1]);
+
+        const recording = JSON.parse(fs.readFileSync(recordingPath, 'utf8'));
+        expect(recording.documents['input.txt'].error).toBeUndefined();
+
+        const client = new LspClient(ReplayTransport.load(recordingPath));
+        await client.start(rootUri);
+        expect(await client.getSemanticTokens(uri, content)).toEqual(recorded!);
+        await client.shutdown();
+    });
+
+    it("should replay the tokens the server was ready with", async () => {
+        const recordingPath = path.join(tmpDir, 'indexed.json');
+        const recorded = await record(recordingPath, ['--indexing'], { readiness: { strategy: 'stable', polls: 3, delay: 0 } });
+        expect(recorded!.data).toEqual([0, 9, 5, 1, 0, 1, 4, 4, 0, 1]);
+
+        const client = new LspClient(ReplayTransport.load(recordingPath));
+        await client.start(rootUri);
+        expect(await client.getSemanticTokens(uri, content)).toEqual(recorded!);
+        await client.shutdown();
+    });
+
+    it("should fail for changed and unrecorded files", async () => {
+        const recordingPath = path.join(tmpDir, 'changed.json');
+        await record(recordingPath);
+
+        const replay = ReplayTransport.load(recordingPath);
+        const client = new LspClient(replay);
+        await client.start(rootUri);
+
+        expect(replay.checkDocument(uri, content + '\n')).toBe(`input.txt changed since ${recordingPath} was made, record the session again`);
+        expect(replay.checkDocument(`${rootUri}/other.txt`, content)).toBe(`other.txt is not in ${recordingPath}, record the session again`);
+
+        client.sendNotification('textDocument/didOpen', { textDocument: { uri, languageId: 'plaintext', version: 1, text: 'changed' } });
+        await expect(client.requestSemanticTokensFull(uri)).rejects.toMatchObject({ code: -32803 });
+        await client.shutdown();
+    });
+});
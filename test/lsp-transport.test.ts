@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { LspClient } from "../src/lsp/client";
+import { encodeMessage, MessageReader, SocketTransport } from "../src/lsp/transport";
+import fs from 'node:fs';
+import net from 'node:net';
+import path from 'node:path';
+import os from 'node:os';
+
+const dummyLsp = path.join(import.meta.dir, 'dummy-lsp.ts');
+const uri = 'file:///input.txt';
+const content = 'function hello "world"\nvar test';
+const expected = [0, 9, 5, 1, 0, 1, 4, 4, 0, 1];
+
+function freePort(): Promise<number> {
+    return new Promise(resolve => {
+        const server = net.createServer();
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+async function semanticTokensOver(transport: SocketTransport): Promise<number[]> {
+    const client = new LspClient(transport);
+    try {
+        await client.start('file:///');
+        return (await client.getSemanticTokens(uri, content))!.data;
+    } finally {
+        await client.shutdown();
+    }
+}
+
+describe("LSP transports", () => {
+    let tmpDir: string;
+
+    beforeAll(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-transport-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should split a stream into messages", () => {
+        const messages: any[] = [];
+        const reader = new MessageReader(msg => messages.push(msg));
+        const stream = Buffer.concat([encodeMessage({ id: 1, result: "ü" }), encodeMessage({ method: "exit" })]);
+
+        reader.push(stream.subarray(0, 10));
+        reader.push(stream.subarray(10, 30));
+        expect(messages).toEqual([]);
+        reader.push(stream.subarray(30));
+        expect(messages).toEqual([{ id: 1, result: "ü" }, { method: "exit" }]);
+    });
+
+    it("should wait for the server to connect", async () => {
+        const transport = new SocketTransport({ type: 'tcp-listen' }, ["bun", "run", dummyLsp, "--socket=${port}"]);
+        expect(await semanticTokensOver(transport)).toEqual(expected);
+    });
+
+    it("should connect over TCP once the server listens", async () => {
+        const port = await freePort();
+        const transport = new SocketTransport({ type: 'tcp', port }, ["bun", "run", dummyLsp, "--listen=${port}"]);
+        expect(await semanticTokensOver(transport)).toEqual(expected);
+    });
+
+    it("should connect to a Unix domain socket", async () => {
+        const socketPath = path.join(tmpDir, 'lsp.sock');
+        const transport = new SocketTransport({ type: 'pipe', path: socketPath }, ["bun", "run", dummyLsp, `--listen=${socketPath}`]);
+        expect(await semanticTokensOver(transport)).toEqual(expected);
+    });
+
+    it("should drop a connection made after closing", async () => {
+        const server = net.createServer();
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const connected = new Promise<net.Socket>(resolve => server.once('connection', resolve));
+
+        const transport = new SocketTransport({ type: 'tcp', port: (server.address() as net.AddressInfo).port });
+        transport.start(() => {}, () => {});
+        transport.close();
+
+        const socket = await connected;
+        await new Promise(resolve => socket.once('close', resolve));
+        server.close();
+    });
+
+    it("should fail when nobody listens", async () => {
+        const port = await freePort();
+        const client = new LspClient(new SocketTransport({ type: 'tcp', port, timeout: 300 }));
+        await expect(client.start('file:///')).rejects.toThrow(`Could not connect to the language server at 127.0.0.1:${port} within 300 ms`);
+    });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { TextMateEngine } from "../src/textmate/grammar";
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+describe("TextMateEngine", () => {
+    let tmpDir: string;
+    let grammarPath: string;
+
+    beforeAll(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'textmate-engine-'));
+        grammarPath = path.join(tmpDir, 'test.json');
+
+        fs.writeFileSync(grammarPath, JSON.stringify({
+            scopeName: "source.test",
+            patterns: [
+                { begin: "//", end: "$", name: "comment.line.double-slash.test" },
+                { begin: "\"", end: "\"", name: "string.quoted.double.test" }
+            ]
+        }));
+        fs.writeFileSync(path.join(tmpDir, 'todo.json'), JSON.stringify({
+            scopeName: "todo.injection",
+            injectionSelector: "L:comment",
+            patterns: [{ match: "TODO", name: "keyword.todo.injection" }]
+        }));
+    });
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should apply injection grammars to their injectTo targets", async () => {
+        const engine = new TextMateEngine(grammarPath, "source.test", {}, [
+            { scopeName: "todo.injection", path: path.join(tmpDir, 'todo.json'), injectTo: ["source.test"] }
+        ]);
+        await engine.init();
+
+        const tokens = engine.tokenize('"TODO" // TODO: fix');
+        const todo = tokens.find(t => t.scopes.includes("keyword.todo.injection"))!;
+        expect(todo.startIndex).toBe(10);
+        expect(todo.scopes).toEqual(["source.test", "comment.line.double-slash.test", "keyword.todo.injection"]);
+        expect(todo.injectedFrom).toEqual({ "keyword.todo.injection": "todo.injection" });
+
+        // The selector limits the injection to comments
+        expect(tokens.filter(t => t.scopes.includes("keyword.todo.injection"))).toHaveLength(1);
+        expect(tokens[0].injectedFrom).toBeUndefined();
+    });
+
+    it("should let the config override the injectionSelector", async () => {
+        const engine = new TextMateEngine(grammarPath, "source.test", {}, [
+            { scopeName: "todo.injection", path: path.join(tmpDir, 'todo.json'), injectTo: ["source.test"], injectionSelector: "L:string" }
+        ]);
+        await engine.init();
+
+        const todos = engine.tokenize('"TODO" // TODO: fix').filter(t => t.scopes.includes("keyword.todo.injection"));
+        expect(todos).toHaveLength(1);
+        expect(todos[0].scopes).toContain("string.quoted.double.test");
+    });
+
+    it("should load YAML, plist and JSON5 grammars", async () => {
+        const yamlPath = path.join(tmpDir, 'test.tmLanguage.yaml');
+        fs.writeFileSync(yamlPath, [
+            "scopeName: source.test",
+            "patterns:",
+            "  - match: '\\bfn\\b'",
+            "    name: keyword.yaml.test",
+            "  - include: source.embedded"
+        ].join('\n'));
+
+        // Unclear extensions are detected from the content
+        const plistPath = path.join(tmpDir, 'embedded.grammar');
+        fs.writeFileSync(plistPath, `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+    <key>scopeName</key><string>source.embedded</string>
+    <key>patterns</key>
+    <array>
+        <dict><key>match</key><string>\\d+</string><key>name</key><string>constant.numeric.plist.test</string></dict>
+        <dict><key>include</key><string>source.json5</string></dict>
+    </array>
+</dict>
+</plist>`);
+
+        const json5Path = path.join(tmpDir, 'extra.json5');
+        fs.writeFileSync(json5Path, `{
+            // Comments and trailing commas are fine
+            scopeName: 'source.json5',
+            patterns: [{ match: '@[a-z]+', name: 'entity.name.tag.json5.test' },],
+        }`);
+
+        const engine = new TextMateEngine(yamlPath, "source.test", { "source.embedded": plistPath, "source.json5": json5Path });
+        await engine.init();
+
+        const scopes = engine.tokenize('fn 42 @tag').map(t => t.scopes[t.scopes.length - 1]);
+        expect(scopes).toContain("keyword.yaml.test");
+        expect(scopes).toContain("constant.numeric.plist.test");
+        expect(scopes).toContain("entity.name.tag.json5.test");
+    });
+
+    it("should report the format of grammars that fail to parse", async () => {
+        const brokenPath = path.join(tmpDir, 'broken.yml');
+        fs.writeFileSync(brokenPath, "scopeName: [source.broken");
+
+        const engine = new TextMateEngine(brokenPath, "source.broken");
+        await expect(engine.init()).rejects.toThrow(`Failed to parse grammar ${brokenPath} as yaml`);
+    });
+
+    it("should add language and standard token type from embeddedLanguages and tokenTypes", async () => {
+        const templatePath = path.join(tmpDir, 'template.json');
+        fs.writeFileSync(templatePath, JSON.stringify({
+            scopeName: "source.template",
+            patterns: [
+                { begin: "sql`", end: "`", contentName: "meta.embedded.block.sql" },
+                {
+                    begin: "\"", end: "\"", name: "string.quoted.double.template",
+                    patterns: [{ begin: "\\$\\{", end: "\\}", name: "meta.interpolation.template" }]
+                }
+            ]
+        }));
+
+        const engine = new TextMateEngine(templatePath, "source.template", {}, [{
+            scopeName: "source.template",
+            path: templatePath,
+            language: "template",
+            embeddedLanguages: { "meta.embedded.block.sql": "sql" },
+            tokenTypes: { "meta.interpolation": "other" }
+        }]);
+        await engine.init();
+
+        const tokens = engine.tokenize('sql`(1)` "a${(b)}"');
+        const at = (index: number) => tokens.find(t => t.startIndex <= index && index < t.endIndex)!;
+
+        expect(at(0)).toMatchObject({ languageId: "template", tokenType: "other" });
+        expect(at(4)).toMatchObject({ languageId: "sql", tokenType: "other" });
+        expect(at(10)).toMatchObject({ languageId: "template", tokenType: "string" });
+        expect(at(14)).toMatchObject({ languageId: "template", tokenType: "other" });
+    });
+
+    it("should profile lines and stop slow lines at the time limit", async () => {
+        const engine = new TextMateEngine(grammarPath, "source.test");
+        await engine.init();
+
+        const { profile } = engine.tokenizeWithProfile('"open\nstill open" x');
+        expect(profile.lines.map(l => [l.line, l.ruleStackDepth, l.stoppedEarly])).toEqual([[0, 2, false], [1, 1, false]]);
+        expect(profile.totalTime).toBeCloseTo(profile.lines[0].time + profile.lines[1].time);
+
+        // Lots of tokens on one line take longer than 1 ms
+        const { tokens, profile: limited } = engine.tokenizeWithProfile('"a" '.repeat(20000) + '\nx', 1);
+        expect(limited.lines[0].stoppedEarly).toBe(true);
+        expect(limited.lines[1].stoppedEarly).toBe(false);
+        expect(tokens.filter(t => t.line === 0).length).toBeLessThan(20000 * 3);
+    });
+
+    it("should trace the rule behind every token and scope", async () => {
+        const tracePath = path.join(tmpDir, 'trace.json');
+        fs.writeFileSync(tracePath, JSON.stringify({
+            scopeName: "source.trace",
+            patterns: [{ include: "#call" }, { include: "#block" }],
+            repository: {
+                call: { match: "(\\w+)\\(", captures: { "1": { name: "entity.name.function.trace" } } },
+                block: {
+                    begin: "\\{", end: "\\}", name: "meta.block.trace", contentName: "meta.body.trace",
+                    patterns: [{ match: "\\d+", name: "constant.numeric.trace" }]
+                }
+            }
+        }));
+
+        const engine = new TextMateEngine(tracePath, "source.trace", {}, [], tmpDir);
+        await engine.init();
+
+        const tokens = engine.tokenize('f( { 1 }');
+        const at = (index: number) => tokens.find(t => t.startIndex <= index && index < t.endIndex)!;
+        const rule = (pointer: string, regex: string, extra: object = {}) => ({ scopeName: "source.trace", file: "trace.json", pointer, regex, ...extra });
+
+        expect(at(0).scopes).toEqual(["source.trace", "entity.name.function.trace"]);
+        expect(at(0).grammarRule).toEqual(rule("/repository/call/captures/1", "(\\w+)\\(", { repositoryKey: "call", captureGroup: 1 }));
+        expect(at(1).grammarRule).toEqual(rule("/repository/call", "(\\w+)\\(", { repositoryKey: "call" }));
+        expect(at(1).scopeRules).toBeUndefined();
+
+        const number = at(5);
+        expect(number.scopes).toEqual(["source.trace", "meta.block.trace", "meta.body.trace", "constant.numeric.trace"]);
+        expect(number.grammarRule).toEqual(rule("/repository/block/patterns/0", "\\d+", { repositoryKey: "block" }));
+        expect(number.scopeRules).toEqual({
+            "meta.block.trace": rule("/repository/block", "\\{", { repositoryKey: "block" }),
+            "meta.body.trace": rule("/repository/block", "\\{", { repositoryKey: "block" }),
+            "constant.numeric.trace": number.grammarRule!
+        });
+
+        // Without tracing tokens carry no rules
+        const plain = new TextMateEngine(tracePath, "source.trace");
+        await plain.init();
+        expect(plain.tokenize('f( { 1 }').some(t => t.grammarRule || t.scopeRules)).toBe(false);
+    });
+
+    it("should lint grammars", async () => {
+        const lintPath = path.join(tmpDir, 'lint.json');
+        fs.writeFileSync(lintPath, JSON.stringify({
+            scopeName: "source.lint",
+            patterns: [
+                { include: "#known" },
+                { include: "#typo" },
+                { include: "$self" },
+                { include: "source.missing" },
+                { include: "source.embedded#nope" },
+                { begin: "\\(", name: "meta.unclosed" },
+                { match: "[a-", name: "invalid.regex" },
+                { match: "(a)(?:b)(?<name>c)", captures: { "1": { name: "a" }, "2": { name: "c" }, "3": { name: "missing" } } },
+                { begin: "(<<)(\\w+)", end: "\\2", captures: { "2": { name: "tag" } } }
+            ],
+            repository: {
+                known: {
+                    patterns: [{ include: "#nested" }],
+                    repository: { nested: { match: "x" }, unused: { match: "y" } }
+                },
+                orphan: { match: "z" }
+            }
+        }));
+        const embeddedPath = path.join(tmpDir, 'lint-embedded.json');
+        fs.writeFileSync(embeddedPath, JSON.stringify({ scopeName: "source.embedded", patterns: [] }));
+
+        const engine = new TextMateEngine(lintPath, "source.lint", { "source.embedded": embeddedPath });
+        const diagnostics = (await engine.lint()).map(d => [d.severity, path.basename(d.file), d.pointer, d.message]);
+
+        expect(diagnostics).toEqual([
+            ["error", "lint.json", "/patterns/1/include", 'Unresolved include "#typo": no repository entry "typo"'],
+            ["error", "lint.json", "/patterns/3/include", 'Unresolved include "source.missing": no grammar for scope "source.missing" (add it to extraGrammars)'],
+            ["error", "lint.json", "/patterns/4/include", 'Unresolved include "source.embedded#nope": "source.embedded" has no repository entry "nope"'],
+            ["error", "lint.json", "/patterns/5/begin", 'Rule has "begin" but no "end" or "while"'],
+            ["error", "lint.json", "/patterns/6/match", "Invalid regex: premature end of char-class"],
+            ["warning", "lint.json", "/patterns/7/captures/3", "Capture 3 does not exist, the pattern has 2 group(s)"],
+            ["warning", "lint.json", "/repository/orphan", "Repository entry is never included"],
+            ["warning", "lint.json", "/repository/known/repository/unused", "Repository entry is never included"]
+        ]);
+    });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from "bun:test";
 import { ThemeResolver } from "../src/theme/resolver";
+import { TokenMerger } from "../src/overlay/merger";
+import { TextMateEngine } from "../src/textmate/grammar";
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
@@ -154,4 +156,480 @@ describe("ThemeResolver", () => {
         fs.unlinkSync(baseThemePath);
         fs.unlinkSync(childThemePath);
      });
+
+     it("should match descendant and child selectors against the whole scope stack", () => {
+        const tmpDir = os.tmpdir();
+        const themePath = path.join(tmpDir, 'parent-selector-theme.json');
+
+        const theme = {
+            tokenColors: [
+                { scope: "string.quoted", settings: { foreground: "#111111" } },
+                { scope: "meta.function string.quoted", settings: { foreground: "#222222" } },
+                { scope: "meta.class > string", settings: { foreground: "#333333" } }
+            ]
+        };
+        fs.writeFileSync(themePath, JSON.stringify(theme));
+        const customResolver = new ThemeResolver(themePath);
+
+        // Parent chain wins over the plain selector on the same scope
+        const inFunction = customResolver.resolve(["source.ts", "meta.function.ts", "meta.block.ts", "string.quoted.double.ts"]);
+        expect(inFunction.color.foreground).toBe("#222222");
+        expect(inFunction.matchedScopeIndex).toBe(3);
+
+        const outside = customResolver.resolve(["source.ts", "string.quoted.double.ts"]);
+        expect(outside.color.foreground).toBe("#111111");
+
+        // Child combinator only applies to a direct parent, and the leaf selector
+        // "string" is less specific than "string.quoted"
+        const directChild = customResolver.resolve(["source.ts", "meta.class.ts", "string.unquoted.ts"]);
+        expect(directChild.color.foreground).toBe("#333333");
+
+        const nestedChild = customResolver.resolve(["source.ts", "meta.class.ts", "meta.block.ts", "string.unquoted.ts"]);
+        expect(nestedChild.matchedScopeIndex).toBe(-1);
+
+        fs.unlinkSync(themePath);
+     });
+
+     it("should support exclusions and comma separated selectors", () => {
+        const tmpDir = os.tmpdir();
+        const themePath = path.join(tmpDir, 'exclusion-selector-theme.json');
+
+        const theme = {
+            tokenColors: [
+                { scope: "source - comment", settings: { foreground: "#AAAAAA" } },
+                { scope: "keyword.control, storage.type ,entity.name.custom-element", settings: { foreground: "#BBBBBB" } }
+            ]
+        };
+        fs.writeFileSync(themePath, JSON.stringify(theme));
+        const customResolver = new ThemeResolver(themePath);
+
+        expect(customResolver.resolve(["source.ts", "variable.ts"]).color.foreground).toBe("#AAAAAA");
+        expect(customResolver.resolve(["source.ts", "comment.line.ts"]).matchedScopeIndex).toBe(-1);
+
+        expect(customResolver.resolve(["source.ts", "keyword.control.ts"]).color.foreground).toBe("#BBBBBB");
+        expect(customResolver.resolve(["source.ts", "storage.type.ts"]).color.foreground).toBe("#BBBBBB");
+        expect(customResolver.resolve(["source.ts", "entity.name.custom-element.html"]).color.foreground).toBe("#BBBBBB");
+
+        fs.unlinkSync(themePath);
+     });
+
+     it("should prefer the later rule when selectors tie", () => {
+        const tmpDir = os.tmpdir();
+        const themePath = path.join(tmpDir, 'tie-selector-theme.json');
+
+        const theme = {
+            tokenColors: [
+                { scope: "meta.alpha keyword", settings: { foreground: "#010101" } },
+                { scope: "meta.block keyword", settings: { foreground: "#020202" } },
+                { scope: "keyword.operator", settings: { foreground: "#030303" } },
+                { scope: "keyword.operator", settings: { foreground: "#040404" } }
+            ]
+        };
+        fs.writeFileSync(themePath, JSON.stringify(theme));
+        const customResolver = new ThemeResolver(themePath);
+
+        // Both parent selectors have the same length, so rule order decides
+        const result = customResolver.resolve(["source.ts", "meta.alpha.ts", "meta.block.ts", "keyword.control.ts"]);
+        expect(result.color.foreground).toBe("#020202");
+
+        expect(customResolver.resolve(["source.ts", "keyword.operator.ts"]).color.foreground).toBe("#040404");
+
+        fs.unlinkSync(themePath);
+     });
+
+     it("should resolve foreground and fontStyle independently", () => {
+        const tmpDir = os.tmpdir();
+        const themePath = path.join(tmpDir, 'attribute-merge-theme.json');
+
+        const theme = {
+            tokenColors: [
+                { scope: "comment", settings: { foreground: "#6A9955" } },
+                { scope: "comment.line", settings: { fontStyle: "italic" } },
+                { scope: "markup.deleted", settings: { fontStyle: "strikethrough bold" } },
+                { scope: "meta.embedded", settings: { fontStyle: "bold" } },
+                { scope: "meta.embedded comment", settings: { fontStyle: "" } }
+            ]
+        };
+        fs.writeFileSync(themePath, JSON.stringify(theme));
+        const customResolver = new ThemeResolver(themePath);
+
+        // Color from "comment", italic from the more specific "comment.line"
+        const comment = customResolver.resolve(["source.ts", "comment.line.double-slash.ts"]);
+        expect(comment.color.foreground).toBe("#6A9955");
+        expect(comment.color.fontStyle).toBe("italic");
+        expect(comment.matchedScopeIndex).toBe(1);
+        expect(comment.sources.foreground).toEqual({
+            selector: "comment", section: "tokenColors", ruleIndex: 0, themeFile: "attribute-merge-theme.json", scopeIndex: 1
+        });
+        expect(comment.sources.fontStyle).toEqual({
+            selector: "comment.line", section: "tokenColors", ruleIndex: 1, themeFile: "attribute-merge-theme.json", scopeIndex: 1
+        });
+
+        const deleted = customResolver.resolve(["markup.deleted.diff"]);
+        expect(deleted.color.fontStyle).toBe("bold strikethrough");
+        expect(deleted.sources.foreground).toBeUndefined();
+
+        // An empty fontStyle resets the bold inherited from the parent scope
+        const embedded = customResolver.resolve(["source.ts", "meta.embedded.ts", "comment.block.ts"]);
+        expect(embedded.color.fontStyle).toBe("");
+        expect(embedded.sources.fontStyle).toEqual({
+            selector: "meta.embedded comment", section: "tokenColors", ruleIndex: 4, themeFile: "attribute-merge-theme.json", scopeIndex: 2
+        });
+
+        fs.unlinkSync(themePath);
+     });
+
+     it("should read editor and bracket colors from the colors block", () => {
+        const tmpDir = os.tmpdir();
+        const baseThemePath = path.join(tmpDir, 'colors-base-theme.json');
+        const childThemePath = path.join(tmpDir, 'colors-child-theme.json');
+
+        fs.writeFileSync(baseThemePath, JSON.stringify({
+            colors: {
+                "editor.background": "#FFFFFF",
+                "editor.foreground": "#333333",
+                "editorBracketHighlight.foreground1": "#111111",
+                "editorBracketHighlight.foreground2": "#222222"
+            }
+        }));
+        fs.writeFileSync(childThemePath, JSON.stringify({
+            include: "./colors-base-theme.json",
+            colors: {
+                "editorBracketHighlight.foreground2": "#999999",
+                "editorBracketHighlight.foreground4": "#00000000",
+                "editorBracketHighlight.foreground5": "#555555"
+            }
+        }));
+
+        const customResolver = new ThemeResolver(childThemePath);
+
+        // Light background -> light defaults for everything the theme leaves unset
+        expect(customResolver.getThemeType()).toBe("light");
+        expect(customResolver.getEditorColors()).toEqual({ foreground: "#333333", background: "#FFFFFF" });
+        expect(customResolver.getBracketColors().map(c => c.color)).toEqual(["#111111", "#999999", "#7B3814", "#555555"]);
+        expect(customResolver.getUnexpectedBracketColor().color).toBe("#FF1212CC");
+
+        // Each color knows which file of the include chain defined it
+        expect(customResolver.getBracketColors().map(c => c.source.themeFile)).toEqual([
+            "colors-base-theme.json", "colors-child-theme.json", undefined, "colors-child-theme.json"
+        ]);
+
+        // Unmatched tokens fall back to editor.foreground
+        expect(customResolver.resolve(["unknown.scope"]).color.foreground).toBe("#333333");
+
+        fs.unlinkSync(baseThemePath);
+        fs.unlinkSync(childThemePath);
+     });
+
+     it("should score semantic token selectors like VS Code", () => {
+        const tmpDir = os.tmpdir();
+        const themePath = path.join(tmpDir, 'semantic-selector-theme.json');
+
+        fs.writeFileSync(themePath, JSON.stringify({
+            semanticTokenColors: {
+                "variable": "#000001",
+                "variable.readonly": "#000002",
+                "variable.readonly.static": { foreground: "#000003", bold: true },
+                "*.static": { fontStyle: "italic" },
+                "function": "#000004",
+                "function:swift": "#000005",
+                "method": "#000006",
+                "type": "#000007",
+                "class": "#000008"
+            }
+        }));
+        const customResolver = new ThemeResolver(themePath);
+
+        // Two modifiers beat one modifier beats the plain type
+        expect(customResolver.resolveSemantic("variable", [])!.color.foreground).toBe("#000001");
+        expect(customResolver.resolveSemantic("variable", ["readonly"])!.color.foreground).toBe("#000002");
+
+        const staticConst = customResolver.resolveSemantic("variable", ["static", "readonly"])!;
+        expect(staticConst.color.foreground).toBe("#000003");
+        // Flags are resolved one by one: bold from the specific rule, italic from "*.static"
+        expect(staticConst.color.fontStyle).toBe("italic bold");
+        expect(staticConst.sources.foreground).toEqual({
+            selector: "variable.readonly.static", section: "semanticTokenColors", ruleIndex: 2, themeFile: "semantic-selector-theme.json"
+        });
+        expect(staticConst.sources.fontStyle?.selector).toBe("variable.readonly.static");
+
+        // "*.static" only sets the font style, the color comes from "variable"
+        const staticVar = customResolver.resolveSemantic("variable", ["static"])!;
+        expect(staticVar.color).toEqual({ foreground: "#000001", fontStyle: "italic" });
+
+        // Language specific selectors only apply to their language and win over the plain type
+        expect(customResolver.resolveSemantic("function", [], "swift")!.color.foreground).toBe("#000005");
+        expect(customResolver.resolveSemantic("function", [], "typescript")!.color.foreground).toBe("#000004");
+
+        // "member" is a sub type of "method"
+        expect(customResolver.resolveSemantic("member", [])!.color.foreground).toBe("#000006");
+        expect(customResolver.resolveSemantic("parameter", [])).toBeNull();
+
+        // "class", "enum", "interface", "struct" and "typeParameter" are sub types of "type",
+        // a selector for the type itself is more specific
+        expect(customResolver.resolveSemantic("interface", [])!.color.foreground).toBe("#000007");
+        expect(customResolver.resolveSemantic("typeParameter", [])!.color.foreground).toBe("#000007");
+        expect(customResolver.resolveSemantic("class", [])!.color.foreground).toBe("#000008");
+
+        expect(customResolver.isSemanticHighlightingEnabled()).toBe(true);
+
+        fs.unlinkSync(themePath);
+     });
+
+     it("should respect semanticHighlighting: false", () => {
+        const tmpDir = os.tmpdir();
+        const themePath = path.join(tmpDir, 'semantic-disabled-theme.json');
+
+        fs.writeFileSync(themePath, JSON.stringify({ semanticHighlighting: false }));
+        const customResolver = new ThemeResolver(themePath);
+        expect(customResolver.isSemanticHighlightingEnabled()).toBe(false);
+
+        fs.unlinkSync(themePath);
+     });
+
+     it("should load the bundled default themes with their include chain", () => {
+        const darkPlus = new ThemeResolver("Dark+", "bundled");
+        // keyword.control comes from dark_plus.json, editor colors from dark_vs.json
+        expect(darkPlus.resolve(["source.ts", "keyword.control.ts"]).color.foreground).toBe("#C586C0");
+        expect(darkPlus.getEditorColors()).toEqual({ foreground: "#D4D4D4", background: "#1E1E1E" });
+
+        const lightModern = new ThemeResolver("Light Modern", "bundled");
+        expect(lightModern.getThemeType()).toBe("light");
+        expect(lightModern.resolve(["source.ts", "keyword.control.ts"]).color.foreground).toBe("#AF00DB");
+     });
+
+     it("should throw if the theme cannot be loaded", () => {
+        const tmpDir = os.tmpdir();
+        const brokenThemePath = path.join(tmpDir, 'broken-include-theme.json');
+        fs.writeFileSync(brokenThemePath, JSON.stringify({ include: "./does-not-exist.json" }));
+
+        expect(() => new ThemeResolver(path.join(tmpDir, 'missing-theme.json'))).toThrow("Theme file not found");
+        expect(() => new ThemeResolver(brokenThemePath)).toThrow("does-not-exist.json");
+
+        fs.unlinkSync(brokenThemePath);
+     });
+
+     it("should load tmTheme (plist) files", () => {
+        const tmpDir = os.tmpdir();
+        const themePath = path.join(tmpDir, 'plist-test.tmTheme');
+
+        fs.writeFileSync(themePath, `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>name</key>
+    <string>Plist Test</string>
+    <key>settings</key>
+    <array>
+        <dict>
+            <key>settings</key>
+            <dict>
+                <key>background</key>
+                <string>#272822</string>
+                <key>foreground</key>
+                <string>#F8F8F2</string>
+            </dict>
+        </dict>
+        <dict>
+            <key>name</key>
+            <string>Comment</string>
+            <key>scope</key>
+            <string>comment, meta.documentation</string>
+            <key>settings</key>
+            <dict>
+                <key>foreground</key>
+                <string>#75715E</string>
+                <key>fontStyle</key>
+                <string>italic</string>
+            </dict>
+        </dict>
+    </array>
+</dict>
+</plist>`);
+
+        const customResolver = new ThemeResolver(themePath);
+
+        const comment = customResolver.resolve(["source.js", "comment.line.js"]);
+        expect(comment.color).toEqual({ foreground: "#75715E", fontStyle: "italic" });
+        expect(customResolver.resolve(["source.js", "meta.documentation.js"]).color.foreground).toBe("#75715E");
+
+        // The global settings entry provides the editor colors and the default foreground
+        expect(customResolver.getEditorColors()).toEqual({ foreground: "#F8F8F2", background: "#272822" });
+        expect(customResolver.getThemeType()).toBe("dark");
+        expect(customResolver.resolve(["source.js"]).color.foreground).toBe("#F8F8F2");
+
+        fs.unlinkSync(themePath);
+     });
+
+     it("should report the theme file of rules inherited through include", () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'provenance-theme-'));
+        fs.mkdirSync(path.join(tmpDir, 'base'));
+        const baseThemePath = path.join(tmpDir, 'base', 'base.json');
+        const childThemePath = path.join(tmpDir, 'child.json');
+
+        fs.writeFileSync(baseThemePath, JSON.stringify({
+            tokenColors: [
+                { scope: "comment", settings: { foreground: "#00FF00" } },
+                { scope: "string", settings: { foreground: "#FF0000" } }
+            ],
+            semanticTokenColors: { "variable": "#123456" }
+        }));
+        fs.writeFileSync(childThemePath, JSON.stringify({
+            include: "./base/base.json",
+            tokenColors: [
+                { scope: "keyword", settings: { foreground: "#FFFF00" } }
+            ]
+        }));
+
+        const customResolver = new ThemeResolver(childThemePath);
+
+        expect(customResolver.resolve(["string.quoted"]).sources.foreground).toEqual({
+            selector: "string", section: "tokenColors", ruleIndex: 1, themeFile: "base/base.json", scopeIndex: 0
+        });
+        expect(customResolver.resolve(["keyword"]).sources.foreground?.themeFile).toBe("child.json");
+        expect(customResolver.resolveSemantic("variable", [])!.sources.foreground?.themeFile).toBe("base/base.json");
+
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+     });
+
+     it("should count which rules are used, shadowed or never matched", () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-theme-'));
+        const themePath = path.join(tmpDir, 'coverage-theme.json');
+
+        fs.writeFileSync(themePath, JSON.stringify({
+            tokenColors: [
+                { scope: "string", settings: { foreground: "#111111" } },
+                { scope: "string.quoted, markup.heading", settings: { foreground: "#222222" } },
+                { scope: "string", settings: { fontStyle: "italic" } }
+            ],
+            semanticTokenColors: {
+                "variable": "#333333",
+                "variable.readonly": "#444444",
+                "function": { "bold": true }
+            }
+        }));
+
+        const customResolver = new ThemeResolver(themePath);
+        customResolver.resolve(["source", "string.quoted.double"]);
+        customResolver.resolve(["source", "string.quoted.double"]); // Cached, but still a token
+        customResolver.resolve(["string.quoted"], false); // Not counted
+        customResolver.resolveSemantic("variable", ["readonly"]);
+
+        const coverage = customResolver.getCoverage();
+        expect(coverage.tokenColors.map(r => [r.selector, r.status, r.matched, r.won])).toEqual([
+            ["string", "shadowed", 2, 0],
+            ["string.quoted", "used", 2, 2],
+            ["markup.heading", "unmatched", 0, 0],
+            ["string", "used", 2, 2]
+        ]);
+        // Only the rule that won the same attribute shadows it, not the italic rule
+        expect(coverage.tokenColors[0].shadowedBy).toEqual([
+            { selector: "string.quoted", section: "tokenColors", ruleIndex: 1, themeFile: "coverage-theme.json", count: 2 }
+        ]);
+
+        expect(coverage.semanticTokenColors.map(r => [r.selector, r.status])).toEqual([
+            ["variable", "shadowed"],
+            ["variable.readonly", "used"],
+            ["function", "unmatched"]
+        ]);
+
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+     });
+
+     it("should count the TextMate rules under a semantic token as shadowed", () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-semantic-theme-'));
+        const themePath = path.join(tmpDir, 'coverage-semantic-theme.json');
+
+        fs.writeFileSync(themePath, JSON.stringify({
+            tokenColors: [
+                { scope: "variable.other", settings: { foreground: "#111111" } },
+                { scope: "variable.other", settings: { fontStyle: "italic" } }
+            ],
+            semanticTokenColors: {
+                "property": "#222222"
+            }
+        }));
+
+        const customResolver = new ThemeResolver(themePath);
+        const merger = new TokenMerger(new TextMateEngine(path.join(import.meta.dir, 'grammar.json'), 'source.test'), customResolver);
+        const styled = merger.merge('abc', [
+            { line: 0, startIndex: 0, endIndex: 3, scopes: ["source.test", "variable.other"], languageId: 'test', tokenType: 'other' }
+        ], { data: [0, 0, 3, 0, 0] }, { tokenTypes: ['property'], tokenModifiers: [] });
+        expect(styled[0]).toMatchObject({ foreground: "#222222", fontStyle: "italic" });
+
+        // The semantic rule took the foreground, the italic rule still styles the token
+        const coverage = customResolver.getCoverage();
+        expect(coverage.tokenColors.map(r => [r.selector, r.status, r.matched, r.won])).toEqual([
+            ["variable.other", "shadowed", 1, 0],
+            ["variable.other", "used", 1, 1]
+        ]);
+        expect(coverage.tokenColors[0].shadowedBy).toEqual([
+            { selector: "property", section: "semanticTokenColors", ruleIndex: 0, themeFile: "coverage-semantic-theme.json", count: 1 }
+        ]);
+        expect(coverage.semanticTokenColors.map(r => [r.selector, r.status, r.matched, r.won])).toEqual([
+            ["property", "used", 1, 1]
+        ]);
+
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+     });
+
+     it("should detect include cycles", () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cycle-theme-'));
+        const aPath = path.join(tmpDir, 'a.json');
+        const bPath = path.join(tmpDir, 'b.json');
+
+        fs.writeFileSync(aPath, JSON.stringify({ include: "./b.json", tokenColors: [{ scope: "comment", settings: { foreground: "#111111" } }] }));
+        fs.writeFileSync(bPath, JSON.stringify({ include: "./a.json" }));
+
+        expect(() => new ThemeResolver(aPath)).toThrow("Include cycle: a.json -> b.json -> a.json");
+
+        // In check mode the cycle is reported and the rest of the theme still loads
+        const customResolver = new ThemeResolver(aPath, 'auto', true);
+        expect(customResolver.getDiagnostics()).toEqual([
+            { severity: "error", message: "Include cycle: a.json -> b.json -> a.json", themeFile: "b.json" }
+        ]);
+        expect(customResolver.resolve(["comment"]).color.foreground).toBe("#111111");
+
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+     });
+
+     it("should report malformed rules as diagnostics", () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-theme-'));
+        const themePath = path.join(tmpDir, 'lint-theme.json');
+
+        fs.writeFileSync(themePath, JSON.stringify({
+            include: "./missing.json",
+            colors: { "editor.background": "red" },
+            tokenColors: [
+                { scope: "comment" },
+                { scope: "string", settings: { foreground: "#12345" } },
+                { scope: "keyword", settings: { fontStyle: "italic oblique" } },
+                { scope: "string, constant", settings: { foreground: "#222222", fontStyle: "bold" } },
+                { scope: "constant", settings: { fontStyle: "italic" } }
+            ],
+            semanticTokenColors: {
+                "variable": "#zzz",
+                "function": { "bold": "yes" }
+            }
+        }));
+
+        const diagnostics = ThemeResolver.check(themePath);
+        expect(diagnostics.map(d => [d.severity, d.section, d.ruleIndex, d.selector, d.message])).toEqual([
+            ["warning", "colors", undefined, "editor.background", 'Invalid color "red"'],
+            ["warning", "tokenColors", 0, "comment", "Rule has no 'settings'"],
+            ["warning", "tokenColors", 1, "string", 'Invalid foreground color "#12345"'],
+            ["warning", "tokenColors", 2, "keyword", 'Unknown fontStyle value "oblique"'],
+            ["warning", "tokenColors", 3, "string", "Duplicate selector, overrides the foreground of tokenColors[1]"],
+            ["warning", "tokenColors", 4, "constant", "Duplicate selector, overrides the fontStyle of tokenColors[3]"],
+            ["warning", "semanticTokenColors", 0, "variable", 'Invalid foreground color "#zzz"'],
+            ["warning", "semanticTokenColors", 1, "function", '"bold" must be true or false'],
+            ["error", undefined, undefined, undefined, expect.stringContaining("missing.json")]
+        ]);
+
+        expect(ThemeResolver.check(path.join(tmpDir, 'not-there.json'))).toEqual([
+            { severity: "error", message: expect.stringContaining("Theme file not found") }
+        ]);
+
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+     });
 });
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { loadSemanticTokensFile } from "../src/lsp/tokens-file";
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+describe("Semantic tokens files", () => {
+    let tmpDir: string;
+    const legend = { tokenTypes: ['variable', 'function'], tokenModifiers: ['declaration', 'readonly'] };
+
+    const write = (name: string, content: unknown) => {
+        const filePath = path.join(tmpDir, name);
+        fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+        return filePath;
+    };
+
+    beforeAll(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tokens-file-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should encode readable tokens with the legend", () => {
+        const filePath = write('readable.json', {
+            legend,
+            tokens: [
+                { line: 1, char: 4, length: 4, type: 'variable', modifiers: ['declaration', 'readonly'] },
+                { line: 0, char: 9, length: 5, type: 'function' },
+                { line: 0, char: 0, length: 8, type: 'function' }
+            ]
+        });
+
+        expect(loadSemanticTokensFile(filePath)).toEqual({
+            legend,
+            tokens: { data: [0, 0, 8, 1, 0, 0, 9, 5, 1, 0, 1, 4, 4, 0, 3] }
+        });
+    });
+
+    it("should derive the legend of readable tokens and pass raw data through", () => {
+        const readable = write('derived.json5', `{
+            // No legend
+            tokens: [{ line: 0, char: 2, length: 3, type: "macro", modifiers: ["static"] }],
+        }`);
+        expect(loadSemanticTokensFile(readable)).toEqual({
+            legend: { tokenTypes: ['macro'], tokenModifiers: ['static'] },
+            tokens: { data: [0, 2, 3, 0, 1] }
+        });
+
+        const raw = write('raw.json', { legend, data: [0, 9, 5, 1, 0] });
+        expect(loadSemanticTokensFile(raw)).toEqual({ legend, tokens: { data: [0, 9, 5, 1, 0] } });
+    });
+
+    it("should reject invalid files", () => {
+        const cases: [unknown, string][] = [
+            [{ legend }, 'need either "data" or "tokens"'],
+            [{ data: [0, 0, 1, 0, 0] }, 'have "data" but no "legend"'],
+            [{ legend, data: [0, 0, 1, 0] }, '"data" must be groups of 5 numbers of 0 or more'],
+            [{ legend, tokens: [{ line: 0, char: 0, length: 1, type: 'class' }] }, 'Token 1 has the type "class", which is not in the legend'],
+            [{ legend, tokens: [{ line: 0, char: 0, length: 1, type: 'variable', modifiers: ['static'] }] }, 'Token 1 has the modifier "static", which is not in the legend'],
+            [{ legend, tokens: [{ line: -1, char: 0, length: 1, type: 'variable' }] }, 'Token 1 needs a line, char and length of 0 or more']
+        ];
+
+        for (const [content, message] of cases) {
+            expect(() => loadSemanticTokensFile(write('invalid.json', content))).toThrow(message);
+        }
+    });
+});